@@ -1,12 +1,19 @@
 // @ts-check
-import { defineConfig } from 'astro/config';
+import { defineConfig, envField } from 'astro/config';
 
 import tailwindcss from '@tailwindcss/vite';
 
 import react from '@astrojs/react';
 
+import deckIndex from './src/integrations/deck-index';
+import anchorCheck from './src/integrations/anchor-check';
+import assetManifest from './src/integrations/asset-manifest';
+import pageWeight from './src/integrations/page-weight';
+import localMedia from './src/integrations/local-media';
+
 // https://astro.build/config
 export default defineConfig({
+  site: 'https://capabilities.times10.net', // Canonical + Open Graph URLs
   server: {
     host: true, // Listen on all interfaces (allows both localhost and 127.0.0.1)
     port: 4321, // Explicit port
@@ -22,5 +29,21 @@ export default defineConfig({
     inlineStylesheets: 'auto', // Inline small CSS files automatically
   },
 
-  integrations: [react()]
+  // Media env, validated when dev/build starts; see src/lib/cdn-config.ts for the checks envField can't express
+  env: {
+    schema: {
+      PUBLIC_BUNNY_CDN_URL: envField.string({ context: 'client', access: 'public', optional: true, url: true }),
+      PUBLIC_BUNNY_CDN_URL_WORDPRESS: envField.string({ context: 'client', access: 'public', optional: true, url: true }),
+      PUBLIC_BUNNY_CDN_URL_STORAGE: envField.string({ context: 'client', access: 'public', optional: true, url: true }),
+      PUBLIC_BUNNY_STREAM_URL: envField.string({ context: 'client', access: 'public', optional: true, url: true }),
+      PUBLIC_MEDIA_PROVIDER: envField.enum({ context: 'client', access: 'public', optional: true, values: ['bunny', 'local'] }),
+      BUNNY_TOKEN_KEY: envField.string({ context: 'server', access: 'secret', optional: true }),
+      BUNNY_TOKEN_KEY_WORDPRESS: envField.string({ context: 'server', access: 'secret', optional: true }),
+      BUNNY_TOKEN_KEY_STORAGE: envField.string({ context: 'server', access: 'secret', optional: true }),
+      BUNNY_TOKEN_KEY_STREAM: envField.string({ context: 'server', access: 'secret', optional: true }),
+      BUNNY_STREAM_API_KEY: envField.string({ context: 'server', access: 'secret', optional: true }),
+    },
+  },
+
+  integrations: [react(), localMedia(), assetManifest(), deckIndex(), anchorCheck(), pageWeight()]
 });
\ No newline at end of file
@@ -0,0 +1,443 @@
+#!/usr/bin/env node
+
+/**
+ * WordPress media migration
+ * Moves media referenced as /wp-content/uploads/... from the WordPress pull zone
+ * to the storage pull zone and rewrites the references in the source files.
+ *
+ * Storage layout: /wp-content/uploads/2025/02/photo.jpg -> /uploads/2025/02/photo.jpg
+ * Paths outside /wp-content/ resolve to the storage pull zone (inferPullZone in
+ * src/lib/media-paths.ts). A `pullZone: 'wordpress'` applies to the media of the
+ * object, call or element it is set on; it is rewritten to 'storage' once all of
+ * that media is migrated. Migrated paths whose pull zone has to stay WordPress
+ * (it still covers media that isn't migrated) are left as they are and reported.
+ *
+ * Dry run by default: prints the reference diff and the copy plan, changes nothing.
+ *
+ *   node migrate-wp-media.js [paths...] [options]
+ *
+ *   paths            Files or folders to scan (default: src/pages src/components src/content src/layouts)
+ *   --apply          Copy the files, then rewrite the references that copied successfully
+ *   --only <text>    Only migrate paths containing <text>, e.g. --only 2025/02/
+ *   --from <dir>     Read originals from a local mirror (e.g. ./media) instead of the WordPress pull zone
+ *   --to <dir>       Write to a local directory instead of the Bunny Storage API
+ *   --report <file>  Also write the report to <file>
+ *
+ * Env (shell or .env):
+ * - PUBLIC_BUNNY_CDN_URL_WORDPRESS (or PUBLIC_BUNNY_CDN_URL): where originals are downloaded from
+ * - PUBLIC_BUNNY_CDN_URL_STORAGE: absolute WordPress pull zone URLs are rewritten to this host
+ * - BUNNY_STORAGE_ZONE, BUNNY_STORAGE_ACCESS_KEY: storage zone name and password (FTP & API Access), for --apply
+ * - BUNNY_STORAGE_API_URL: storage endpoint (default https://storage.bunnycdn.com; point at a mock server to test)
+ */
+
+import { existsSync } from 'node:fs';
+import { copyFile, mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { dirname, extname, join, relative } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { loadEnv } from 'vite';
+
+const DEFAULT_ROOTS = ['src/pages', 'src/components', 'src/content', 'src/layouts'];
+const EXTENSIONS = new Set(['.astro', '.ts', '.tsx', '.js', '.jsx', '.json', '.md', '.mdx']);
+const WP_PREFIX = '/wp-content/uploads/';
+const STORAGE_PREFIX = '/uploads/';
+const CONCURRENCY = 4;
+const TIMEOUT_MS = 60_000;
+
+// Optional origin, then the uploads path up to a quote, whitespace, bracket or query string
+const WP_REFERENCE = /(https?:\/\/[a-z0-9.-]+)?(\/wp-content\/uploads\/[^\s"'`()<>?#]+)/gi;
+// pullZone: 'wordpress', "pullZone": "wordpress", pullZone="wordpress", pullZone={'wordpress'}
+const WORDPRESS_ZONE = /(["']?pullZone["']?\s*[:=]\s*\{?\s*)(["'])wordpress\2/g;
+
+// Files whose top level is markup, and files that can contain tags (JSX or HTML)
+const MARKUP_EXTENSIONS = new Set(['.astro', '.md', '.mdx']);
+const TAG_EXTENSIONS = new Set(['.astro', '.md', '.mdx', '.tsx', '.jsx']);
+const BRACKETS = { '(': ')', '[': ']', '{': '}' };
+
+function parseArgs(argv) {
+  const args = { paths: [], apply: false, only: undefined, from: undefined, to: undefined, report: undefined };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--apply') args.apply = true;
+    else if (['--only', '--from', '--to', '--report'].includes(arg)) {
+      const value = argv[++i];
+      if (!value) throw new Error(`${arg} needs a value`);
+      args[arg.slice(2)] = value;
+    } else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+    else args.paths.push(arg);
+  }
+  return args;
+}
+
+const trimUrl = (url) => url?.replace(/\/$/, '');
+const toStoragePath = (wpPath) => `${STORAGE_PREFIX}${wpPath.slice(WP_PREFIX.length)}`;
+
+async function listFiles(path) {
+  const stats = await stat(path).catch(() => undefined);
+  if (!stats) return [];
+  if (stats.isFile()) return EXTENSIONS.has(extname(path)) ? [path] : [];
+  const entries = await readdir(path, { withFileTypes: true });
+  const nested = await Promise.all(entries.map((entry) => listFiles(join(path, entry.name))));
+  return nested.flat();
+}
+
+/**
+ * Every WordPress media reference in a file, with its line for the report
+ */
+export function findReferences(file, source, only) {
+  const references = [];
+  for (const match of source.matchAll(WP_REFERENCE)) {
+    const [text, origin, path] = match;
+    if (only && !path.includes(only)) continue;
+    const line = source.slice(0, match.index).split('\n').length;
+    references.push({ file, line, index: match.index, text, origin: trimUrl(origin), path });
+  }
+  return references;
+}
+
+/**
+ * Replacement for a reference, or a reason it has to stay
+ */
+export function rewriteReference(reference, env) {
+  const storagePath = toStoragePath(reference.path);
+  if (!reference.origin) return { text: storagePath };
+
+  const wordpressUrl = trimUrl(env.PUBLIC_BUNNY_CDN_URL_WORDPRESS || env.PUBLIC_BUNNY_CDN_URL);
+  const storageUrl = trimUrl(env.PUBLIC_BUNNY_CDN_URL_STORAGE);
+  if (!wordpressUrl) return { skipped: 'absolute URL; set PUBLIC_BUNNY_CDN_URL_WORDPRESS to rewrite it' };
+  if (reference.origin !== wordpressUrl) return { skipped: `absolute URL on ${reference.origin}, not the WordPress pull zone` };
+  if (!storageUrl) return { skipped: 'absolute URL; set PUBLIC_BUNNY_CDN_URL_STORAGE to rewrite it' };
+  return { text: `${storageUrl}${storagePath}` };
+}
+
+/**
+ * Nesting of a source file as spans { start, end, parent }, the whole file first:
+ * brackets in code, tags in markup. Strings, comments, regular expressions and
+ * markup text are skipped. Null when the file doesn't balance.
+ */
+export function scanSpans(source, ext) {
+  const spans = [{ start: 0, end: source.length, parent: -1, kind: MARKUP_EXTENSIONS.has(ext) ? 'markup' : 'code' }];
+  const stack = [0];
+  const open = (kind, start, closer) => {
+    spans.push({ start, end: -1, parent: stack.at(-1), kind, closer });
+    stack.push(spans.length - 1);
+  };
+  const close = (end) => {
+    spans[stack.pop()].end = end;
+  };
+  const skipTo = (text, from) => {
+    const found = source.indexOf(text, from);
+    return found === -1 ? source.length : found + text.length - 1;
+  };
+  // Start of an expression (so `<` opens a tag and `/` a regular expression), not after a value
+  const expressionStart = (index) => {
+    const before = source.slice(0, index).trimEnd();
+    return !before || /[(,=:[!&|?{};>]$/.test(before) || /\b(return|yield|await)$/.test(before);
+  };
+
+  // Astro frontmatter is code
+  let frontmatterEnd = -1;
+  if (ext === '.astro' && source.startsWith('---')) {
+    frontmatterEnd = source.indexOf('\n---', 3);
+    if (frontmatterEnd !== -1) open('code', 0);
+  }
+
+  for (let i = frontmatterEnd === -1 ? 0 : 3; i < source.length; i++) {
+    if (frontmatterEnd !== -1 && i >= frontmatterEnd) {
+      if (stack.length !== 2) return null;
+      close(frontmatterEnd);
+      i = frontmatterEnd + 3;
+      frontmatterEnd = -1;
+      continue;
+    }
+    const top = spans[stack.at(-1)];
+    const char = source[i];
+    const startsTag = char === '<' && /[A-Za-z]/.test(source[i + 1] ?? '');
+
+    if (top.kind === 'code') {
+      if (source.startsWith('//', i)) i = skipTo('\n', i);
+      else if (source.startsWith('/*', i)) i = skipTo('*/', i + 2);
+      else if (char === '"' || char === "'" || char === '`') {
+        for (i++; i < source.length && source[i] !== char; i++) if (source[i] === '\\') i++;
+      } else if (char === '/' && expressionStart(i)) {
+        for (let inClass = false, j = i + 1; j < source.length && source[j] !== '\n'; j++) {
+          if (source[j] === '\\') j++;
+          else if (source[j] === '[') inClass = true;
+          else if (source[j] === ']') inClass = false;
+          else if (source[j] === '/' && !inClass) {
+            i = j;
+            break;
+          }
+        }
+      } else if (BRACKETS[char]) open('code', i, BRACKETS[char]);
+      else if (char === ')' || char === ']' || char === '}') {
+        if (top.closer !== char) return null;
+        close(i + 1);
+      } else if (startsTag && TAG_EXTENSIONS.has(ext) && expressionStart(i)) open('tag', i);
+    } else if (top.kind === 'tag') {
+      if (char === '"' || char === "'") i = skipTo(char, i + 1);
+      else if (char === '{') open('code', i, '}');
+      else if (char === '>') {
+        close(i + 1);
+        // JSX children are markup up to the closing tag
+        if (source[i - 1] !== '/' && spans[stack.at(-1)].kind === 'code') open('children', i + 1);
+      }
+    } else {
+      if (source.startsWith('<!--', i)) i = skipTo('-->', i);
+      else if (char === '{') open('code', i, '}');
+      else if (startsTag && TAG_EXTENSIONS.has(ext)) open('tag', i);
+      else if (source.startsWith('</', i) && top.kind === 'children') {
+        i = skipTo('>', i);
+        close(i + 1);
+      }
+    }
+  }
+  return stack.length === 1 ? spans : null;
+}
+
+/**
+ * New file contents with the migrated references and the WordPress pull zones
+ * that no longer cover WordPress media rewritten, plus the indexes of migrated
+ * references left alone because their pull zone has to stay WordPress
+ *
+ * A pull zone covers the root-relative media of the innermost span around it that
+ * has any (its object or element, or the call its options object is passed to),
+ * except where a closer pull zone applies. Absolute URLs don't depend on it.
+ * Files that can't be scanned count as one span, so they switch all or nothing.
+ */
+export function rewriteSource(source, ext, replacements) {
+  const references = [...source.matchAll(WP_REFERENCE)].map((match) => ({ index: match.index, text: match[0], relative: !match[1] }));
+  const relative = references.filter((reference) => reference.relative);
+  const zones = [...source.matchAll(WORDPRESS_ZONE)].map((match) => ({ index: match.index, text: match[0], prefix: match[1], quote: match[2] }));
+  const spans = (zones.length && scanSpans(source, ext)) || [{ start: 0, end: source.length, parent: -1 }];
+  const contains = (span, index) => span.start <= index && index < span.end;
+
+  for (const zone of zones) {
+    let scope = spans.findLastIndex((span) => contains(span, zone.index));
+    while (scope > 0 && !relative.some((reference) => contains(spans[scope], reference.index))) scope = spans[scope].parent;
+    zone.scope = scope;
+  }
+  for (const reference of relative) {
+    const covering = zones.filter((zone) => contains(spans[zone.scope], reference.index));
+    const closest = Math.max(...covering.map((zone) => zone.scope));
+    reference.zones = covering.filter((zone) => zone.scope === closest);
+  }
+  for (const zone of zones) {
+    const covered = relative.filter((reference) => reference.zones.includes(zone));
+    // A pull zone that covers nothing here may apply to media passed in from elsewhere
+    zone.switch = covered.length > 0 && covered.every((reference) => replacements.has(reference.index));
+  }
+
+  const edits = [];
+  const kept = [];
+  for (const reference of references) {
+    if (!replacements.has(reference.index)) continue;
+    if (reference.relative && !reference.zones.every((zone) => zone.switch)) kept.push(reference.index);
+    else edits.push({ index: reference.index, length: reference.text.length, text: replacements.get(reference.index) });
+  }
+  for (const zone of zones) {
+    if (zone.switch) edits.push({ index: zone.index, length: zone.text.length, text: `${zone.prefix}${zone.quote}storage${zone.quote}` });
+  }
+
+  let next = source;
+  for (const edit of edits.sort((a, b) => b.index - a.index)) {
+    next = `${next.slice(0, edit.index)}${edit.text}${next.slice(edit.index + edit.length)}`;
+  }
+  return { next, kept };
+}
+
+// Changed lines only; files are rewritten in place, so line numbers match
+function diffLines(file, before, after) {
+  const oldLines = before.split('\n');
+  const newLines = after.split('\n');
+  const out = [`--- a/${file}`, `+++ b/${file}`];
+  oldLines.forEach((line, index) => {
+    if (line === newLines[index]) return;
+    out.push(`@@ line ${index + 1} @@`, `-${line}`, `+${newLines[index]}`);
+  });
+  return out;
+}
+
+async function fetchWithTimeout(url, init = {}) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function createSource(args, env) {
+  if (args.from) {
+    return {
+      describe: (path) => join(args.from, path),
+      exists: async (path) => existsSync(join(args.from, path)),
+      read: (path) => readFile(join(args.from, path)),
+    };
+  }
+  const wordpressUrl = trimUrl(env.PUBLIC_BUNNY_CDN_URL_WORDPRESS || env.PUBLIC_BUNNY_CDN_URL);
+  if (!wordpressUrl) throw new Error('Set PUBLIC_BUNNY_CDN_URL_WORDPRESS (or PUBLIC_BUNNY_CDN_URL), or read from a local mirror with --from');
+  return {
+    describe: (path) => `${wordpressUrl}${path}`,
+    exists: async (path) => (await fetchWithTimeout(`${wordpressUrl}${path}`, { method: 'HEAD' })).ok,
+    read: async (path) => {
+      const response = await fetchWithTimeout(`${wordpressUrl}${path}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return Buffer.from(await response.arrayBuffer());
+    },
+  };
+}
+
+function describeDestination(args, env) {
+  if (args.to) return (path) => join(args.to, path);
+  const apiUrl = trimUrl(env.BUNNY_STORAGE_API_URL || 'https://storage.bunnycdn.com');
+  return (path) => `${apiUrl}/${env.BUNNY_STORAGE_ZONE || '<BUNNY_STORAGE_ZONE>'}${path}`;
+}
+
+function createDestination(args, env) {
+  const describe = describeDestination(args, env);
+  if (args.to) {
+    return {
+      describe,
+      write: async (path, body, from) => {
+        const file = join(args.to, path);
+        await mkdir(dirname(file), { recursive: true });
+        // Local mirrors copy without loading the file into memory
+        if (args.from) await copyFile(join(args.from, from), file);
+        else await writeFile(file, body);
+      },
+    };
+  }
+  const zone = env.BUNNY_STORAGE_ZONE;
+  const accessKey = env.BUNNY_STORAGE_ACCESS_KEY;
+  if (!zone || !accessKey) throw new Error('Set BUNNY_STORAGE_ZONE and BUNNY_STORAGE_ACCESS_KEY, or write to a local directory with --to');
+  const apiUrl = trimUrl(env.BUNNY_STORAGE_API_URL || 'https://storage.bunnycdn.com');
+  return {
+    describe,
+    write: async (path, body) => {
+      const response = await fetchWithTimeout(`${apiUrl}/${zone}${path}`, {
+        method: 'PUT',
+        headers: { AccessKey: accessKey, 'Content-Type': 'application/octet-stream' },
+        body,
+      });
+      if (!response.ok) throw new Error(`Storage API HTTP ${response.status}`);
+    },
+  };
+}
+
+async function runPool(items, worker) {
+  const results = new Map();
+  let next = 0;
+  const runners = Array.from({ length: Math.min(CONCURRENCY, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      results.set(item, await worker(item).then(() => undefined, (error) => error.message || String(error)));
+    }
+  });
+  await Promise.all(runners);
+  return results;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const env = loadEnv('production', process.cwd(), '');
+  const roots = args.paths.length ? args.paths : DEFAULT_ROOTS;
+  const files = (await Promise.all(roots.map(listFiles))).flat();
+
+  const sources = new Map();
+  const references = [];
+  for (const file of files) {
+    const source = await readFile(file, 'utf8');
+    const found = findReferences(relative(process.cwd(), file), source, args.only);
+    if (!found.length) continue;
+    sources.set(file, source);
+    references.push(...found.map((reference) => ({ ...reference, absoluteFile: file })));
+  }
+
+  const report = [];
+  const log = (line = '') => {
+    report.push(line);
+    console.log(line);
+  };
+
+  const paths = [...new Set(references.map((reference) => reference.path))].sort();
+  log(`${args.apply ? 'Migrating' : 'Dry run:'} ${paths.length} WordPress media file(s) referenced ${references.length} time(s) in ${sources.size} file(s)`);
+  if (!paths.length) return;
+
+  const source = createSource(args, env);
+  // Dry runs only describe the destination, so they need no storage credentials
+  const destination = args.apply ? createDestination(args, env) : { describe: describeDestination(args, env) };
+
+  // Dry runs check the originals exist; --apply copies them
+  const failures = await runPool(paths, async (path) => {
+    if (!args.apply) {
+      if (!(await source.exists(path))) throw new Error('not found');
+      return;
+    }
+    const body = args.to && args.from ? undefined : await source.read(path);
+    await destination.write(toStoragePath(path), body, path);
+  });
+  const migrated = new Set(paths.filter((path) => !failures.get(path)));
+
+  log();
+  log('## Copy plan');
+  for (const path of paths) {
+    const error = failures.get(path);
+    log(`${error ? '✗' : '✓'} ${source.describe(path)} -> ${destination.describe(toStoragePath(path))}${error ? ` (${error})` : ''}`);
+  }
+
+  const skipped = [];
+  const replacementsByFile = new Map();
+  for (const reference of references) {
+    if (!migrated.has(reference.path)) {
+      skipped.push({ ...reference, reason: `copy failed: ${failures.get(reference.path)}` });
+      continue;
+    }
+    const rewrite = rewriteReference(reference, env);
+    if (rewrite.skipped) {
+      skipped.push({ ...reference, reason: rewrite.skipped });
+      continue;
+    }
+    const replacements = replacementsByFile.get(reference.absoluteFile) ?? new Map();
+    replacements.set(reference.index, rewrite.text);
+    replacementsByFile.set(reference.absoluteFile, replacements);
+  }
+
+  log();
+  log('## Reference changes');
+  let rewrittenFiles = 0;
+  for (const [file, replacements] of replacementsByFile) {
+    const before = sources.get(file);
+    const { next, kept } = rewriteSource(before, extname(file), replacements);
+    for (const index of kept) {
+      const reference = references.find((other) => other.absoluteFile === file && other.index === index);
+      skipped.push({ ...reference, reason: "its pullZone 'wordpress' also covers media that isn't migrated" });
+    }
+    if (next === before) continue;
+    rewrittenFiles++;
+    for (const line of diffLines(relative(process.cwd(), file), before, next)) log(line);
+    if (args.apply) await writeFile(file, next);
+  }
+
+  if (skipped.length) {
+    log();
+    log('## Not rewritten');
+    for (const reference of skipped) log(`${reference.file}:${reference.line} ${reference.text} (${reference.reason})`);
+  }
+
+  log();
+  log(args.apply
+    ? `Copied ${migrated.size}/${paths.length} file(s) and rewrote references in ${rewrittenFiles} file(s). Run npm run asset-manifest to refresh src/lib/asset-manifest.json.`
+    : 'Nothing was changed. Run again with --apply to copy the files and rewrite the references.');
+
+  if (args.report) await writeFile(args.report, `${report.join('\n')}\n`);
+  if (migrated.size < paths.length) process.exitCode = 1;
+}
+
+// Run as a script; tests import the helpers above
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error) => {
+    console.error(`[migrate-wp-media] ${error.message}`);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,214 @@
+import { execFileSync } from 'node:child_process';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { findReferences, rewriteReference, rewriteSource, scanSpans } from './migrate-wp-media.js';
+
+const SCRIPT = join(dirname(fileURLToPath(import.meta.url)), 'migrate-wp-media.js');
+
+const ENV = {
+  PUBLIC_BUNNY_CDN_URL_WORDPRESS: 'https://capeswp.b-cdn.net/',
+  PUBLIC_BUNNY_CDN_URL_STORAGE: 'https://capes.b-cdn.net',
+};
+
+// What main() does per file: rewrite the references whose media was copied
+function migrate(source: string, ext: string, copied: (path: string) => boolean) {
+  const replacements = new Map<number, string>();
+  for (const reference of findReferences('file', source)) {
+    const rewrite = rewriteReference(reference, ENV);
+    if (copied(reference.path) && rewrite.text) replacements.set(reference.index, rewrite.text);
+  }
+  return rewriteSource(source, ext, replacements);
+}
+const all = () => true;
+
+describe('findReferences', () => {
+  it('finds root-relative and absolute uploads paths, up to a quote or query string', () => {
+    const source = [
+      `<LazyImage src="/wp-content/uploads/2025/02/still.jpg" />`,
+      `<img src="https://capeswp.b-cdn.net/wp-content/uploads/2025/03/ticket.jpg?width=800" />`,
+      `const reel = '/reel.mp4';`,
+    ].join('\n');
+    expect(findReferences('index.astro', source)).toEqual([
+      { file: 'index.astro', line: 1, index: 16, text: '/wp-content/uploads/2025/02/still.jpg', origin: undefined, path: '/wp-content/uploads/2025/02/still.jpg' },
+      {
+        file: 'index.astro',
+        line: 2,
+        index: 68,
+        text: 'https://capeswp.b-cdn.net/wp-content/uploads/2025/03/ticket.jpg',
+        origin: 'https://capeswp.b-cdn.net',
+        path: '/wp-content/uploads/2025/03/ticket.jpg',
+      },
+    ]);
+  });
+
+  it('keeps only paths containing --only', () => {
+    const source = `['/wp-content/uploads/2025/02/a.jpg', '/wp-content/uploads/2025/03/b.jpg']`;
+    expect(findReferences('list.ts', source, '2025/03/').map((reference) => reference.path)).toEqual(['/wp-content/uploads/2025/03/b.jpg']);
+  });
+});
+
+describe('rewriteReference', () => {
+  const reference = (text: string) => findReferences('file', `"${text}"`)[0];
+
+  it('moves root-relative paths to /uploads/', () => {
+    expect(rewriteReference(reference('/wp-content/uploads/2025/02/still.jpg'), {})).toEqual({ text: '/uploads/2025/02/still.jpg' });
+  });
+
+  it('moves absolute URLs on the WordPress pull zone to the storage host', () => {
+    expect(rewriteReference(reference('https://capeswp.b-cdn.net/wp-content/uploads/2025/03/ticket.jpg'), ENV)).toEqual({
+      text: 'https://capes.b-cdn.net/uploads/2025/03/ticket.jpg',
+    });
+  });
+
+  it('skips absolute URLs it cannot place', () => {
+    const absolute = reference('https://capeswp.b-cdn.net/wp-content/uploads/2025/03/ticket.jpg');
+    expect(rewriteReference(absolute, { PUBLIC_BUNNY_CDN_URL_WORDPRESS: 'https://wp.example.com' })).toEqual({
+      skipped: 'absolute URL on https://capeswp.b-cdn.net, not the WordPress pull zone',
+    });
+    expect(rewriteReference(absolute, {})).toEqual({ skipped: 'absolute URL; set PUBLIC_BUNNY_CDN_URL_WORDPRESS to rewrite it' });
+    expect(rewriteReference(absolute, { PUBLIC_BUNNY_CDN_URL: 'https://capeswp.b-cdn.net' })).toEqual({
+      skipped: 'absolute URL; set PUBLIC_BUNNY_CDN_URL_STORAGE to rewrite it',
+    });
+  });
+});
+
+describe('scanSpans', () => {
+  it('nests frontmatter, tags and their expressions, skipping strings and regular expressions', () => {
+    const source = `---\nconst close = /[)}]/;\n---\n<Hero alt="a (b" image={{ src: 'x' }} />`;
+    const spans = scanSpans(source, '.astro');
+    expect(spans?.map(({ kind, start, end, parent }) => [kind, source.slice(start, end), parent])).toEqual([
+      ['markup', source, -1],
+      ['code', '---\nconst close = /[)}]/;', 0],
+      ['tag', `<Hero alt="a (b" image={{ src: 'x' }} />`, 0],
+      ['code', `{{ src: 'x' }}`, 2],
+      ['code', `{ src: 'x' }`, 3],
+    ]);
+  });
+
+  it('gives up on files that do not balance', () => {
+    expect(scanSpans('const options = { pullZone: (1 };', '.ts')).toBeNull();
+  });
+});
+
+describe('rewriteSource', () => {
+  // ShortFormSocial's video list on services.astro, one pull zone per video
+  const SHORT_FORM = `<ShortFormSocial
+  videos={[
+    { src: '/WWE-Capabilities-Recut-08.14.25.mp4', pullZone: 'storage' },
+    { src: '/wp-content/uploads/2025/03/PuraVida-WhatsYourSecret-Capes.mp4', pullZone: 'wordpress' },
+    { src: '/wp-content/uploads/2025/02/Attomax-GolfBall-Hero-V4-1.mp4', pullZone: 'wordpress' },
+  ]}
+/>`;
+
+  it('switches the pull zone of each migrated video, keeping WordPress for the rest', () => {
+    const { next, kept } = migrate(SHORT_FORM, '.astro', (path) => path.includes('2025/02/'));
+    expect(kept).toEqual([]);
+    expect(next).toBe(SHORT_FORM.replace(
+      `{ src: '/wp-content/uploads/2025/02/Attomax-GolfBall-Hero-V4-1.mp4', pullZone: 'wordpress' }`,
+      `{ src: '/uploads/2025/02/Attomax-GolfBall-Hero-V4-1.mp4', pullZone: 'storage' }`
+    ));
+  });
+
+  it('switches a pull zone in an options object with the call it is passed to', () => {
+    const source = `---
+const strategyCardBg = responsiveImage('/wp-content/uploads/2025/09/iyf-hero.jpg', {
+  pullZone: 'wordpress',
+  maxWidth: 1920,
+});
+---`;
+    expect(migrate(source, '.astro', all).next).toBe(source
+      .replace('/wp-content/uploads/2025/09/iyf-hero.jpg', '/uploads/2025/09/iyf-hero.jpg')
+      .replace(`pullZone: 'wordpress'`, `pullZone: 'storage'`));
+  });
+
+  it('switches attribute and JSON pull zones in their own quotes', () => {
+    expect(migrate(`<LazyImage src="/wp-content/uploads/2025/02/a.jpg" pullZone={"wordpress"} />`, '.tsx', all).next).toBe(
+      `<LazyImage src="/uploads/2025/02/a.jpg" pullZone={"storage"} />`
+    );
+    expect(migrate(`{ "src": "/wp-content/uploads/2025/02/a.jpg", "pullZone": "wordpress" }`, '.json', all).next).toBe(
+      `{ "src": "/uploads/2025/02/a.jpg", "pullZone": "storage" }`
+    );
+  });
+
+  it('keeps migrated media whose pull zone still covers media that is not migrated', () => {
+    const source = `<BunnyBackground image="/wp-content/uploads/2025/02/a.jpg" fallback="/wp-content/uploads/2025/03/b.jpg" pullZone="wordpress" />`;
+    const { next, kept } = migrate(source, '.astro', (path) => path.includes('2025/02/'));
+    expect(next).toBe(source);
+    expect(kept).toEqual([source.indexOf('/wp-content/uploads/2025/02/')]);
+  });
+
+  it('rewrites absolute URLs regardless of the pull zone, and leaves those on other hosts', () => {
+    const source = [
+      `<img src="https://capeswp.b-cdn.net/wp-content/uploads/2025/03/Derrick-Rose-Ticket_v2.jpg" data-zone={{ pullZone: 'wordpress' }} />`,
+      `<img src="https://cdn.example.com/wp-content/uploads/2025/03/other.jpg" />`,
+    ].join('\n');
+    expect(migrate(source, '.astro', all).next).toBe(
+      source.replace('https://capeswp.b-cdn.net/wp-content/uploads/', 'https://capes.b-cdn.net/uploads/')
+    );
+  });
+});
+
+describe('migrate-wp-media.js', () => {
+  let root: string;
+  const PAGE = `---
+import LazyImage from '../components/LazyImage';
+---
+<LazyImage src="/wp-content/uploads/2025/02/still.jpg" pullZone="wordpress" />
+<img src="https://capeswp.b-cdn.net/wp-content/uploads/2025/03/ticket.jpg" />
+`;
+
+  // Run the script in the temp project: pages in src/pages, WordPress mirror in media/, storage in out/
+  const run = (...args: string[]): string =>
+    execFileSync(process.execPath, [SCRIPT, 'src/pages', '--from', 'media', '--to', 'out', ...args], {
+      cwd: root,
+      env: { ...process.env, ...ENV, PUBLIC_BUNNY_CDN_URL_WORDPRESS: 'https://wp.example.com' },
+      encoding: 'utf8',
+    });
+  const page = () => readFileSync(join(root, 'src/pages/index.astro'), 'utf8');
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'migrate-wp-media-'));
+    mkdirSync(join(root, 'src/pages'), { recursive: true });
+    writeFileSync(join(root, 'src/pages/index.astro'), PAGE);
+    for (const path of ['2025/02/still.jpg', '2025/03/ticket.jpg']) {
+      mkdirSync(dirname(join(root, 'media/wp-content/uploads', path)), { recursive: true });
+      writeFileSync(join(root, 'media/wp-content/uploads', path), path);
+    }
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reports the copy plan and diff on a dry run, changing nothing', () => {
+    const report = run();
+    expect(report).toContain('Dry run: 2 WordPress media file(s) referenced 2 time(s) in 1 file(s)');
+    expect(report).toContain(`✓ ${join('media', '/wp-content/uploads/2025/02/still.jpg')} -> ${join('out', '/uploads/2025/02/still.jpg')}`);
+    expect(report).toContain([
+      '--- a/src/pages/index.astro',
+      '+++ b/src/pages/index.astro',
+      '@@ line 4 @@',
+      '-<LazyImage src="/wp-content/uploads/2025/02/still.jpg" pullZone="wordpress" />',
+      '+<LazyImage src="/uploads/2025/02/still.jpg" pullZone="storage" />',
+    ].join('\n'));
+    expect(report).toContain(
+      'src/pages/index.astro:5 https://capeswp.b-cdn.net/wp-content/uploads/2025/03/ticket.jpg (absolute URL on https://capeswp.b-cdn.net, not the WordPress pull zone)'
+    );
+    expect(report).toContain('Nothing was changed.');
+    expect(page()).toBe(PAGE);
+    expect(existsSync(join(root, 'out'))).toBe(false);
+  });
+
+  it('copies the files and rewrites the references with --apply', () => {
+    expect(run('--apply')).toContain('Copied 2/2 file(s) and rewrote references in 1 file(s).');
+    expect(readFileSync(join(root, 'out/uploads/2025/02/still.jpg'), 'utf8')).toBe('2025/02/still.jpg');
+    expect(readFileSync(join(root, 'out/uploads/2025/03/ticket.jpg'), 'utf8')).toBe('2025/03/ticket.jpg');
+    expect(page()).toBe(PAGE.replace(
+      '<LazyImage src="/wp-content/uploads/2025/02/still.jpg" pullZone="wordpress" />',
+      '<LazyImage src="/uploads/2025/02/still.jpg" pullZone="storage" />'
+    ));
+  });
+});
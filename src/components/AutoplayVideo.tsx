@@ -3,10 +3,17 @@
  * Uses direct video files from CDN (not Stream) for better performance
  * RULE-014: Speed First - direct video files are faster than Stream player
  * RULE-018: Progressive asset loading with Intersection Observer
+ * Print mode (`?print`) shows the poster only, see src/lib/print-mode.ts
+ * Off-screen pausing and the playback cap come from mediaCoordinator
+ * Slow connections get the _720p file, data saving the poster only (src/lib/loading-policy.ts)
+ * Videos in upcoming snap sections load ahead of time, see src/lib/section-preloader.ts
  */
 
 import { useEffect, useRef, useState } from 'react';
-import { lazyLoadManager } from '../lib/intersection-observer';
+import { useInView } from '../lib/intersection-observer';
+import { lowRenditionPath, useLoadingPolicy, type LoadingPolicyOverride } from '../lib/loading-policy';
+import { mediaCoordinator } from '../lib/media-coordinator';
+import { isPrintMode } from '../lib/print-mode';
 import { bunnyVideoFile } from '../lib/bunny-cdn';
 
 export interface AutoplayVideoProps extends Omit<React.VideoHTMLAttributes<HTMLVideoElement>, 'src'> {
@@ -14,6 +21,7 @@ export interface AutoplayVideoProps extends Omit<React.VideoHTMLAttributes<HTMLV
 	poster?: string;
 	priority?: boolean;
 	pullZone?: string;
+	loadingPolicy?: LoadingPolicyOverride;
 }
 
 export function AutoplayVideo({
@@ -21,14 +29,28 @@ export function AutoplayVideo({
 	poster,
 	priority = false,
 	pullZone = 'storage',
+	loadingPolicy,
 	className = '',
 	...props
 }: AutoplayVideoProps): JSX.Element {
+	// Priority videos are server-rendered; the loading policy (known after hydration) may take that back
+	const policy = useLoadingPolicy(loadingPolicy);
 	const [shouldLoad, setShouldLoad] = useState(priority);
+	const [preloaded, setPreloaded] = useState(false); // Predicted to come up next, not seen yet
+	const [released, setReleased] = useState(false); // Decoder released by mediaCoordinator, poster until back on screen
+	const [lowRenditionFailed, setLowRenditionFailed] = useState(false);
 	const [reducedMotion, setReducedMotion] = useState(false);
+	const [printMode, setPrintMode] = useState(false);
 	const videoRef = useRef<HTMLVideoElement>(null);
 	const containerRef = useRef<HTMLDivElement>(null);
 
+	useEffect(() => {
+		// Print mode: poster only, never the video
+		if (isPrintMode()) {
+			setPrintMode(true);
+		}
+	}, []);
+
 	useEffect(() => {
 		// RULE-008: Respect prefers-reduced-motion
 		const mediaQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
@@ -48,44 +70,81 @@ export function AutoplayVideo({
 		};
 	}, [shouldLoad]);
 
+	const loaded = shouldLoad || preloaded;
+
 	useEffect(() => {
-		if (priority || reducedMotion || shouldLoad) {
-			return;
+		const video = videoRef.current;
+		if (!video || !loaded || printMode) return;
+
+		// A released decoder shows the poster until the video scrolls back in
+		return mediaCoordinator.register(video, {
+			onRelease: () => {
+				setReleased(true);
+				setShouldLoad(false);
+				setPreloaded(false);
+			},
+		});
+	}, [loaded, printMode]);
+
+	const policyReady = policy !== null;
+	const eager = priority && policy?.preloadPriority === true;
+	const preloadAhead = policy?.preloadPriority === true;
+	// Background videos have no play button, so click-to-play means poster only
+	const posterOnly = printMode || policy?.videoPlayback === 'click-to-play';
+
+	// Slow connection or data saving: a server-rendered priority video waits like any other
+	// (first resolution only, a later connection change doesn't unload a playing video)
+	useEffect(() => {
+		if (priority && policy && !policy.preloadPriority) {
+			setShouldLoad(false);
 		}
+	}, [policyReady]);
 
-		const element = containerRef.current;
-		if (!element) return;
+	// RULE-018: Load-ahead and playback visibility through the singleton lazyLoadManager
+	const observing = policyReady && !reducedMotion && !posterOnly;
+	const nearView = useInView(containerRef, {
+		enabled: observing,
+		preload: preloadAhead ? {
+			load: () => setPreloaded(true),
+			cancel: () => setPreloaded(false),
+			hint: () => (poster ? { href: poster } : null),
+		} : undefined,
+	});
+	const onScreen = useInView(containerRef, { purpose: 'playback', enabled: observing });
 
-		// RULE-018: Use singleton lazyLoadManager
-		lazyLoadManager.observe(element, (entry) => {
-			if (entry.isIntersecting) {
+	// Priority videos load right away, the rest once near; a released video may never have
+	// left the load-ahead margin, so it comes back once on screen
+	useEffect(() => {
+		if (!observing) return;
+		if (released) {
+			if (onScreen) {
+				setReleased(false);
 				setShouldLoad(true);
-				lazyLoadManager.unobserve(element);
-			}
-		});
-
-		return () => {
-			if (element) {
-				lazyLoadManager.unobserve(element);
 			}
-		};
-	}, [priority, reducedMotion, shouldLoad]);
+			return;
+		}
+		if (eager || nearView) {
+			setShouldLoad(true);
+		}
+	}, [observing, eager, nearView, onScreen, released]);
 
-	const videoUrl = bunnyVideoFile(src, pullZone);
+	const fileUrl = bunnyVideoFile(src, pullZone);
+	const useLowRendition = policy?.videoRendition === 'low' && !lowRenditionFailed;
+	const videoUrl = useLowRendition ? lowRenditionPath(fileUrl) : fileUrl;
 
 	return (
 		<div ref={containerRef} className={`relative ${className}`}>
-			{!shouldLoad && poster && (
+			{(!loaded || posterOnly) && poster && (
 				<img
 					src={poster}
 					alt=""
 					aria-hidden="true"
 					crossOrigin="anonymous" // Required for mobile browsers CORS (iOS Safari)
 					className="absolute inset-0 w-full h-full object-cover"
-					loading="lazy"
+					loading={printMode ? 'eager' : 'lazy'}
 				/>
 			)}
-			{shouldLoad && (
+			{loaded && !posterOnly && (
 				<video
 					ref={videoRef}
 					src={videoUrl}
@@ -95,8 +154,12 @@ export function AutoplayVideo({
 					muted
 					loop
 					playsInline
-					preload={priority ? 'auto' : 'none'}
+					preload={eager ? 'auto' : 'none'}
 					className="w-full h-full object-cover"
+					onError={() => {
+						// No _720p sibling uploaded: fall back to the original file
+						if (useLowRendition) setLowRenditionFailed(true);
+					}}
 					{...props}
 				/>
 			)}
@@ -3,22 +3,38 @@
  * RULE-020: Standardized lazy-load component structure
  * RULE-018: Progressive asset loading with Intersection Observer
  * RULE-008: Respect prefers-reduced-motion
+ * RULE-015: srcset/sizes from a width ladder, optional AVIF/WebP <picture> sources
+ * Aspect ratio and blur placeholder come from the `asset` prop (getAsset(src) in the .astro
+ * caller), so a page only ships the manifest entries it uses
+ * Print mode (`?print`) loads immediately, see src/lib/print-mode.ts
+ * Slow connections and data saving lower the quality of lazy images, see src/lib/loading-policy.ts
+ * Images in upcoming snap sections load ahead of time, see src/lib/section-preloader.ts
  */
 
 import { useEffect, useRef, useState } from 'react';
-import { lazyLoadManager } from '../lib/intersection-observer';
-import { bunnyImage, bunnyThumbnail, type BunnyImageOptions } from '../lib/bunny-cdn';
+import { useInView } from '../lib/intersection-observer';
+import { useLoadingPolicy, type LoadingPolicyOverride } from '../lib/loading-policy';
+import type { PreloadHint } from '../lib/section-preloader';
+import type { AssetEntry } from '../lib/asset-manifest';
+import { isPrintMode } from '../lib/print-mode';
+import { bunnyThumbnail, type ImageFormat } from '../lib/bunny-cdn';
+import { imageMimeType, responsiveImage, type ResponsiveImageOptions, type SizesSpec } from '../lib/responsive-images';
 
-export interface LazyImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet'> {
+export interface LazyImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet' | 'sizes'> {
 	src: string;
 	alt: string;
 	priority?: boolean;
-	width?: number;
+	width?: number; // Largest srcset width and the fallback src width
+	widths?: number[]; // srcset width ladder (default: src/lib/responsive-images.ts)
+	sizes?: string | SizesSpec; // Rendered width hint, e.g. imageSizes({ base: '100vw', lg: '33vw' })
+	formats?: Extract<ImageFormat, 'avif' | 'webp'>[]; // Modern formats to offer first via <picture>, in order
 	height?: number;
 	quality?: number;
 	aspectRatio?: string;
 	blurPlaceholder?: boolean;
 	pullZone?: string; // Optional: specify a named pull zone (e.g., "images", "assets")
+	asset?: AssetEntry; // getAsset(src); missing: bunnyThumbnail placeholder, no reserved aspect ratio
+	loadingPolicy?: LoadingPolicyOverride; // e.g. { imageQuality: undefined } to keep full quality
 }
 
 export function LazyImage({
@@ -26,20 +42,37 @@ export function LazyImage({
 	alt,
 	priority = false,
 	width,
+	widths,
+	sizes,
+	formats = [],
 	height,
 	quality,
 	aspectRatio,
 	blurPlaceholder = true,
 	pullZone,
+	asset,
+	loadingPolicy,
 	className = '',
 	...props
 }: LazyImageProps): JSX.Element {
 	// For priority images without blur placeholder, show immediately
 	const [isLoaded, setIsLoaded] = useState(priority && !blurPlaceholder);
 	const [shouldLoad, setShouldLoad] = useState(priority);
+	const [preloaded, setPreloaded] = useState(false); // Predicted to come up next, not seen yet
 	const [reducedMotion, setReducedMotion] = useState(false);
+	const [printMode, setPrintMode] = useState(false);
+	const policy = useLoadingPolicy(loadingPolicy);
 	const imgRef = useRef<HTMLImageElement>(null);
 	const containerRef = useRef<HTMLDivElement>(null);
+	const preloadHintRef = useRef<PreloadHint | null>(null);
+
+	useEffect(() => {
+		// Print mode: every image must be loaded before the page is printed
+		if (isPrintMode()) {
+			setPrintMode(true);
+			setShouldLoad(true);
+		}
+	}, []);
 
 	useEffect(() => {
 		// RULE-008: Respect prefers-reduced-motion
@@ -60,42 +93,72 @@ export function LazyImage({
 		};
 	}, [shouldLoad]);
 
-	useEffect(() => {
-		if (priority || reducedMotion || shouldLoad) {
-			return;
-		}
-
-		const element = containerRef.current;
-		if (!element) return;
+	// Lazy images wait for the loading policy, so the first request already has the right quality
+	const policyReady = policy !== null;
+	const preloadAhead = policy?.preloadPriority === true;
 
-		// RULE-018: Use singleton lazyLoadManager
-		lazyLoadManager.observe(element, (entry) => {
-			if (entry.isIntersecting) {
-				setShouldLoad(true);
-				lazyLoadManager.unobserve(element);
-			}
-		});
+	// RULE-018: Observed through the singleton lazyLoadManager until first in view
+	const inView = useInView(containerRef, {
+		once: true,
+		enabled: !priority && !reducedMotion && !shouldLoad && policyReady,
+		preload: preloadAhead ? {
+			load: () => setPreloaded(true),
+			cancel: () => setPreloaded(false),
+			hint: () => preloadHintRef.current,
+		} : undefined,
+	});
 
-		return () => {
-			if (element) {
-				lazyLoadManager.unobserve(element);
-			}
-		};
-	}, [priority, reducedMotion, shouldLoad]);
-
-	const imageOptions: BunnyImageOptions = {
-		width,
+	// Priority images are server-rendered before the policy is known and print wants full quality
+	const qualityCap = priority || printMode ? undefined : policy?.imageQuality;
+	const imageOptions: ResponsiveImageOptions = {
+		maxWidth: width,
+		widths,
+		sizes,
 		height,
-		quality,
+		quality: qualityCap === undefined ? quality : Math.min(quality ?? qualityCap, qualityCap),
 		aspectRatio,
 		pullZone,
 	};
 
-	const fullImageUrl = bunnyImage(src, imageOptions);
-	const thumbnailUrl = blurPlaceholder ? bunnyThumbnail(src, width ? Math.min(width, 50) : 50, pullZone) : fullImageUrl;
+	const responsive = responsiveImage(src, imageOptions);
+	const fullImageUrl = responsive.src;
+	// The <link rel="preload"> has to request exactly what the <img> or first <source> will
+	const firstSource = formats.length > 0 ? responsiveImage(src, { ...imageOptions, format: formats[0] }) : null;
+	preloadHintRef.current = firstSource
+		? { href: firstSource.src, imageSrcset: firstSource.srcset, imageSizes: firstSource.sizes, type: imageMimeType(formats[0]) }
+		: { href: fullImageUrl, imageSrcset: responsive.srcset, imageSizes: responsive.sizes };
+	// Inline placeholder from the manifest saves the thumbnail request
+	const thumbnailUrl = blurPlaceholder
+		? asset?.placeholder ?? bunnyThumbnail(src, width ? Math.min(width, 50) : 50, pullZone)
+		: fullImageUrl;
+	// Reserve the intrinsic aspect ratio so the layout doesn't shift when the image lands
+	// (not for CDN crops, where the served ratio differs)
+	const containerStyle = asset && !height && !aspectRatio
+		? { aspectRatio: `${asset.width} / ${asset.height}`, backgroundColor: asset.color }
+		: undefined;
+
+	const image = (
+		<img
+			ref={imgRef}
+			src={fullImageUrl}
+			srcSet={responsive.srcset}
+			sizes={responsive.sizes}
+			alt={alt}
+			loading={priority || printMode || preloaded ? 'eager' : 'lazy'}
+			crossOrigin="anonymous" // Required for mobile browsers CORS (iOS Safari)
+			onLoad={() => setIsLoaded(true)}
+			onError={() => {
+				// If image fails to load, show it anyway (might be CDN config issue)
+				setIsLoaded(true);
+				console.warn(`[LazyImage] Failed to load image: ${fullImageUrl}`);
+			}}
+			className={`transition-opacity duration-300 ${isLoaded ? 'opacity-100' : 'opacity-0'} ${className}`}
+			{...props}
+		/>
+	);
 
 	return (
-		<div ref={containerRef} className={`relative overflow-hidden ${className}`}>
+		<div ref={containerRef} className={`relative overflow-hidden ${className}`} style={containerStyle}>
 			{blurPlaceholder && !isLoaded && (
 				<img
 					src={thumbnailUrl}
@@ -106,24 +169,16 @@ export function LazyImage({
 					style={{ filter: 'blur(10px)' }}
 				/>
 			)}
-			{shouldLoad && (
-				<img
-					ref={imgRef}
-					src={fullImageUrl}
-					alt={alt}
-					loading={priority ? 'eager' : 'lazy'}
-					crossOrigin="anonymous" // Required for mobile browsers CORS (iOS Safari)
-					onLoad={() => setIsLoaded(true)}
-					onError={() => {
-						// If image fails to load, show it anyway (might be CDN config issue)
-						setIsLoaded(true);
-						console.warn(`[LazyImage] Failed to load image: ${fullImageUrl}`);
-					}}
-					className={`transition-opacity duration-300 ${isLoaded ? 'opacity-100' : 'opacity-0'} ${className}`}
-					{...props}
-				/>
-			)}
+			{(shouldLoad || inView || preloaded) && (formats.length > 0 ? (
+				// Browser takes the first <source> it supports and falls back to the <img>
+				<picture className="contents">
+					{formats.map((format) => {
+						const source = responsiveImage(src, { ...imageOptions, format });
+						return <source key={format} type={imageMimeType(format)} srcSet={source.srcset} sizes={source.sizes} />;
+					})}
+					{image}
+				</picture>
+			) : image)}
 		</div>
 	);
 }
-
@@ -4,58 +4,124 @@
  * RULE-018: Progressive asset loading with Intersection Observer
  * RULE-014: Video lazy loading with preload="none"
  * RULE-008: Respect prefers-reduced-motion
+ * Poster aspect ratio and dominant colour come from the `posterAsset` prop (getAsset(poster))
+ * Print mode (`?print`) shows the poster frame only, see src/lib/print-mode.ts
+ * Bunny Stream videoIds play as adaptive HLS, see src/lib/hls.ts
+ * Playback goes through mediaCoordinator (one audible video, capped muted playback)
+ * Slow connections and data saving downgrade loading, see src/lib/loading-policy.ts
+ * Videos in upcoming snap sections load ahead of time, see src/lib/section-preloader.ts
+ * WebVTT tracks and the remembered captions preference, see src/lib/video-tracks.ts
  */
 
 import { useEffect, useRef, useState } from 'react';
 import type React from 'react';
-import { lazyLoadManager } from '../lib/intersection-observer';
+import { useInView } from '../lib/intersection-observer';
+import { lowRenditionPath, useLoadingPolicy, type LoadingPolicyOverride } from '../lib/loading-policy';
+import { mediaCoordinator } from '../lib/media-coordinator';
+import type { AssetEntry } from '../lib/asset-manifest';
+import { isPrintMode } from '../lib/print-mode';
 import { bunnyImage, bunnyVideoFile, bunnyVideoPoster, bunnyVideoUrl } from '../lib/bunny-cdn';
+import { attachHls, isHlsUrl, type HlsSession } from '../lib/hls';
+import {
+	getCaptionPreference,
+	isCaptionTrack,
+	onCaptionPreferenceChange,
+	preferredCaptionTrack,
+	setCaptionPreference,
+	videoTrackUrl,
+	type VideoTrack,
+} from '../lib/video-tracks';
 
 export interface LazyVideoProps extends Omit<React.VideoHTMLAttributes<HTMLVideoElement>, 'src'> {
 	src?: string;
 	videoId?: string;
 	poster?: string;
+	posterAsset?: AssetEntry; // getAsset(poster), passed by the server so pages only ship their own entries
 	priority?: boolean;
 	pullZone?: string;
 	className?: string;
 	showUnmuteButton?: boolean;
 	unmuteButtonText?: string;
+	tracks?: VideoTrack[]; // WebVTT captions/subtitles/descriptions
+	captionsButtonText?: string; // Caption toggle next to the unmute button
+	loadingPolicy?: LoadingPolicyOverride; // e.g. { videoPlayback: 'autoplay' } to never fall back to click-to-play
+	playButtonText?: string; // Click-to-play button on slow connections / data saving
 }
 
+// Stable default so the track effects don't rerun on every render
+const NO_TRACKS: VideoTrack[] = [];
+
 export function LazyVideo({
 	src,
 	videoId,
 	poster: customPoster,
+	posterAsset: customPosterAsset,
 	priority = false,
 	pullZone = 'storage',
 	className = '',
 	showUnmuteButton = false,
 	unmuteButtonText = 'unmute',
+	tracks = NO_TRACKS,
+	captionsButtonText = 'captions',
+	loadingPolicy,
+	playButtonText = 'play',
 	...props
 }: LazyVideoProps): React.JSX.Element {
-	// If priority is true, start with shouldLoad=true and isIntersecting=true
-	// This ensures videos load immediately on mobile when using client:load
+	// Priority videos are server-rendered; the loading policy (known after hydration) may take that back
+	const policy = useLoadingPolicy(loadingPolicy);
 	const [shouldLoad, setShouldLoad] = useState(priority);
-	const [isIntersecting, setIsIntersecting] = useState(priority); // Start as intersecting if priority
+	const [playRequested, setPlayRequested] = useState(false);
+	const [lowRenditionFailed, setLowRenditionFailed] = useState(false);
+	const [released, setReleased] = useState(false); // Decoder released by mediaCoordinator, poster until back on screen
 	const [reducedMotion, setReducedMotion] = useState(false);
 	const [isMuted, setIsMuted] = useState(true);
+	const [printMode, setPrintMode] = useState(false);
+	const [captionsOn, setCaptionsOn] = useState(false);
 	const containerRef = useRef<HTMLDivElement>(null);
 	const videoRef = useRef<HTMLVideoElement>(null);
 	const savedTimeRef = useRef<number>(0);
+	const captionsOnRef = useRef(false);
+	const preloadedRef = useRef(false); // Loaded for an upcoming section, not seen yet
+	const posterUrlRef = useRef<string | undefined>(undefined);
+
+	// Priority videos load right away unless the connection is slow or data saving is on
+	const policyReady = policy !== null;
+	const eager = priority && policy?.preloadPriority === true;
+	const preloadAhead = policy?.preloadPriority === true;
+	const clickToPlay = policy?.videoPlayback === 'click-to-play' && !playRequested;
 
 	// Determine final URLs
-	const videoUrl = videoId 
-		? bunnyVideoUrl(videoId) 
-		: (src 
-			? (src.startsWith('http://') || src.startsWith('https://') 
-				? src 
-				: bunnyVideoFile(src, pullZone))
-			: '');
+	const fileUrl = src
+		? (src.startsWith('http://') || src.startsWith('https://')
+			? src
+			: bunnyVideoFile(src, pullZone))
+		: '';
+	// Lower-bitrate _720p sibling when the policy asks for it; the original if that file is missing
+	const useLowRendition = !videoId && policy?.videoRendition === 'low' && !lowRenditionFailed;
+	const videoUrl = videoId
+		? bunnyVideoUrl(videoId)
+		: (useLowRendition ? lowRenditionPath(fileUrl) : fileUrl);
 	
 	// RULE-015: Use Bunny Optimizer for dynamic resizing/format conversion
 	const posterUrl = videoId 
 		? bunnyVideoPoster(videoId) 
 		: (customPoster ? (customPoster.startsWith('http') ? customPoster : bunnyImage(customPoster, { quality: 85 })) : undefined);
+	posterUrlRef.current = posterUrl;
+
+	// HLS playlists are attached in an effect (native or hls.js), never through the src attribute
+	const isHls = isHlsUrl(videoUrl);
+
+	const hasCaptions = tracks.some((track) => isCaptionTrack({ kind: track.kind ?? 'captions' }));
+
+	// Poster's intrinsic size/colour: reserves the frame and fills it until the poster arrives
+	const posterAsset = videoId ? undefined : customPosterAsset;
+
+	useEffect(() => {
+		// Print mode: poster frame only, never the video
+		if (isPrintMode()) {
+			setPrintMode(true);
+		}
+	}, []);
 
 	useEffect(() => {
 		// RULE-008: Respect prefers-reduced-motion
@@ -73,104 +139,130 @@ export function LazyVideo({
 		return () => mediaQuery.removeEventListener('change', handleChange);
 	}, []);
 
+	// Slow connection or data saving: a server-rendered priority video waits like any other
+	// (first resolution only, a later connection change doesn't unload a playing video)
+	useEffect(() => {
+		if (priority && policy && !policy.preloadPriority) {
+			setShouldLoad(false);
+		}
+	}, [policyReady]);
+
+	// RULE-018: Two views through the singleton lazyLoadManager: the load-ahead margin
+	// decides when the <video> exists, playback visibility when it plays
+	const observing = policyReady && !printMode && !clickToPlay;
+	const nearView = useInView(containerRef, {
+		enabled: observing,
+		preload: preloadAhead ? {
+			load: () => {
+				preloadedRef.current = true;
+				setShouldLoad(true);
+			},
+			cancel: () => {
+				if (!preloadedRef.current) return;
+				preloadedRef.current = false;
+				setShouldLoad(false);
+			},
+			hint: () => (posterUrlRef.current ? { href: posterUrlRef.current } : null),
+		} : undefined,
+	});
+	const onScreen = useInView(containerRef, { purpose: 'playback', enabled: observing });
+	const inView = nearView || onScreen;
+
 	useEffect(() => {
-		const element = containerRef.current;
-		if (!element) {
+		if (!observing) return;
+
+		// A released video may never have left the load-ahead margin: it comes back once on screen
+		if (released) {
+			if (onScreen) {
+				setReleased(false);
+				setShouldLoad(true);
+			}
 			return;
 		}
 
-		// Always load priority videos immediately and mark as intersecting
-		if (priority || reducedMotion) {
+		// Priority videos load immediately; everything else once near the viewport
+		if (eager || reducedMotion || inView) {
+			if (inView) preloadedRef.current = false;
 			setShouldLoad(true);
-			setIsIntersecting(true);
+			return;
 		}
 
-		// Check if element is already in viewport (fixes mobile gray box issue)
-		// Use multiple checks with delays to ensure layout is complete on mobile
-		const checkInitialIntersection = (): void => {
-			const rect = element.getBoundingClientRect();
-			// More lenient check: element is in viewport or very close to it
-			// On mobile, check if element is visible (has dimensions and is in viewport)
-			const hasDimensions = rect.width > 0 && rect.height > 0;
-			// More aggressive check for mobile: if element has dimensions, it's likely visible
-			// Also check if it's within 2 viewport heights (for scroll-snap sections)
-			const isInViewport = rect.top < window.innerHeight * 2 && rect.bottom > -window.innerHeight * 0.5;
-			
-			// On mobile, if element has dimensions and is near viewport, load it
-			// This handles cases where scroll-snap sections are just off-screen
-			if (hasDimensions && (isInViewport || priority)) {
-				setIsIntersecting(true);
-				// If already in viewport, load immediately (especially important for mobile)
-				setShouldLoad(true);
-			}
-		};
+		// RULE-018: Unload videos that left the load-ahead margin
+		// (priority videos and preloads for an upcoming section stay)
+		if (!priority && !preloadedRef.current) {
+			setShouldLoad(false);
+		}
+	}, [observing, eager, reducedMotion, inView, onScreen, released, priority]);
+
+	// RULE-016: Attach Stream playlists once the <video> exists; the session is torn
+	// down when the video unloads, and resumes from savedTimeRef when it loads again
+	useEffect(() => {
+		const video = videoRef.current;
+		if (!video || !shouldLoad || printMode || !isHls) return;
 
-		// For mobile: Use requestAnimationFrame to ensure layout is complete
-		// Then check multiple times with delays
-		let timeoutId1: ReturnType<typeof setTimeout> | null = null;
-		let timeoutId2: ReturnType<typeof setTimeout> | null = null;
-		let timeoutId3: ReturnType<typeof setTimeout> | null = null;
-		let timeoutId4: ReturnType<typeof setTimeout> | null = null;
+		let session: HlsSession | null = null;
+		let cancelled = false;
+		attachHls(video, videoUrl, { startPosition: savedTimeRef.current })
+			.then((attached) => {
+				if (cancelled) attached.destroy();
+				else session = attached;
+			})
+			.catch((error: Error) => console.error('[LazyVideo]', error.message));
 
-		const rafId = requestAnimationFrame(() => {
-			checkInitialIntersection();
-			
-			// Check immediately and after delays (for mobile layout completion)
-			timeoutId1 = setTimeout(checkInitialIntersection, 100);
-			timeoutId2 = setTimeout(checkInitialIntersection, 300);
-			timeoutId3 = setTimeout(checkInitialIntersection, 500);
-			timeoutId4 = setTimeout(checkInitialIntersection, 1000); // Extra check for slow mobile
+		return () => {
+			cancelled = true;
+			session?.destroy();
+		};
+	}, [shouldLoad, printMode, isHls, videoUrl]);
+
+	// Coordinated while the <video> exists; released decoders come back once the video is in view again
+	useEffect(() => {
+		const video = videoRef.current;
+		if (!video || !shouldLoad || printMode) return;
+
+		return mediaCoordinator.register(video, {
+			onRelease: () => {
+				savedTimeRef.current = video.currentTime;
+				setReleased(true);
+				setShouldLoad(false);
+			},
 		});
+	}, [shouldLoad, printMode]);
 
-		// Always observe for intersection to handle pause/resume, even for priority videos
-		lazyLoadManager.observe(element, (entry) => {
-			if (entry.isIntersecting) {
-				// Video scrolled into view
-				setIsIntersecting(true);
-				setShouldLoad(true);
-			} else {
-				// Video scrolled out of view - pause and save time
-				setIsIntersecting(false);
-				
-				// Save current time and pause before unloading
-				if (videoRef.current) {
-					savedTimeRef.current = videoRef.current.currentTime;
-					videoRef.current.pause();
-				}
+	// Captions follow the visitor's saved preference (before the first toggle: a `default` track)
+	useEffect(() => {
+		if (!hasCaptions) return;
+		setCaptionsOn(getCaptionPreference() ?? tracks.some((track) => track.default));
+		return onCaptionPreferenceChange(setCaptionsOn);
+	}, [hasCaptions]);
 
-				// RULE-018: Unload videos from sections >2 viewports away
-				// Only unload if not priority (keep priority videos loaded)
-				if (!priority && !reducedMotion) {
-					setShouldLoad(false);
-				}
+	// Show the preferred caption track while captions are on; descriptions stay hidden for assistive tech
+	useEffect(() => {
+		captionsOnRef.current = captionsOn;
+		const video = videoRef.current;
+		if (!video || !shouldLoad || !hasCaptions) return;
+
+		const preferred = preferredCaptionTrack(tracks, navigator.languages);
+		const trackElements = Array.from(video.querySelectorAll('track'));
+		trackElements.forEach((element, index) => {
+			if (!isCaptionTrack(element.track)) {
+				element.track.mode = 'hidden';
+				return;
 			}
+			element.track.mode = captionsOn && tracks[index] === preferred ? 'showing' : 'disabled';
 		});
 
-		return () => {
-			cancelAnimationFrame(rafId);
-			if (timeoutId1) clearTimeout(timeoutId1);
-			if (timeoutId2) clearTimeout(timeoutId2);
-			if (timeoutId3) clearTimeout(timeoutId3);
-			if (timeoutId4) clearTimeout(timeoutId4);
-			lazyLoadManager.unobserve(element);
+		// Captions switched in the native controls' menu count as a toggle too
+		const handleTrackChange = (): void => {
+			const showing = trackElements.some((element) => isCaptionTrack(element.track) && element.track.mode === 'showing');
+			if (showing !== captionsOnRef.current) {
+				captionsOnRef.current = showing;
+				setCaptionPreference(showing);
+			}
 		};
-	}, [priority, reducedMotion]);
-
-	// Additional safeguard: If shouldLoad becomes true but isIntersecting is false,
-	// set isIntersecting to true to ensure video is visible (fixes mobile loading issues)
-	// This handles cases where intersection detection hasn't fired yet
-	useEffect(() => {
-		if (shouldLoad && !isIntersecting && !priority) {
-			// Use a small delay to allow intersection check to run first
-			const safeguardTimeout = setTimeout(() => {
-				// If still loaded but not intersecting, mark as intersecting to show video
-				// This ensures videos load on mobile even if intersection detection is delayed
-				setIsIntersecting(true);
-			}, 200);
-			
-			return () => clearTimeout(safeguardTimeout);
-		}
-	}, [shouldLoad, isIntersecting, priority]);
+		video.textTracks.addEventListener('change', handleTrackChange);
+		return () => video.textTracks.removeEventListener('change', handleTrackChange);
+	}, [captionsOn, shouldLoad, hasCaptions, tracks]);
 
 	// Ensure video is muted immediately when element is created, and set volume to 55% when unmuted
 	useEffect(() => {
@@ -223,6 +315,15 @@ export function LazyVideo({
 		}
 	};
 
+	const handleCaptionsToggle = (): void => {
+		setCaptionPreference(!captionsOn);
+	};
+
+	// Click-to-play (minimal loading policy): the tap starts observing, and the video is on screen
+	const handlePlayRequest = (): void => {
+		setPlayRequested(true);
+	};
+
 	// Handle play/pause and resume for native video
 	useEffect(() => {
 		const video = videoRef.current;
@@ -230,10 +331,10 @@ export function LazyVideo({
 			return;
 		}
 
-		// Pause video when not intersecting
-		if (!isIntersecting) {
+		// Pause video when it is no longer visible enough to watch
+		if (!onScreen) {
 			savedTimeRef.current = video.currentTime;
-			video.pause();
+			mediaCoordinator.pause(video);
 			return;
 		}
 
@@ -253,14 +354,15 @@ export function LazyVideo({
 			// Only autoplay if props.autoPlay is not false
 			if (props.autoPlay !== false) {
 				// Use a promise to handle play() to avoid "play() request was interrupted" errors
-				const playPromise = video.play();
+				// The coordinator may hold the video back until a playback slot frees up
+				const playPromise = mediaCoordinator.play(video);
 				if (playPromise !== undefined) {
 					playPromise.catch((error) => {
 						console.log('Video autoplay failed, will retry:', error.message);
 						// On mobile, sometimes play fails even with muted. Retry with a slight delay
 						setTimeout(() => {
 							if (video.muted && video.readyState >= 2) {
-								video.play().catch((retryError) => {
+								mediaCoordinator.play(video).catch((retryError) => {
 									console.log('Video autoplay retry failed:', retryError.message);
 									// Final fallback: ensure video can be played on user interaction
 									// Silently fail - user can tap to play if needed
@@ -287,7 +389,7 @@ export function LazyVideo({
 				video.removeEventListener('canplaythrough', handleCanPlayThrough);
 			};
 		}
-	}, [isIntersecting, shouldLoad, reducedMotion, props.autoPlay, props.muted]);
+	}, [onScreen, shouldLoad, reducedMotion, props.autoPlay, props.muted]);
 
 	// Extract video-specific className if provided, otherwise use default
 	const videoClassName = className.includes('object-contain') || className.includes('h-auto') 
@@ -299,7 +401,10 @@ export function LazyVideo({
 			ref={containerRef} 
 			className={`relative overflow-hidden ${className.includes('object-contain') || className.includes('h-auto') ? 'bg-transparent' : 'bg-black/5'}`}
 			style={{ 
-				aspectRatio: props.width && props.height ? `${props.width}/${props.height}` : undefined,
+				aspectRatio: props.width && props.height
+					? `${props.width}/${props.height}`
+					: (posterAsset ? `${posterAsset.width} / ${posterAsset.height}` : undefined),
+				backgroundColor: posterAsset?.color,
 				height: props.width && props.height ? undefined : (className.includes('h-auto') ? 'auto' : '100%'),
 				width: '100%'
 			}}
@@ -314,24 +419,23 @@ export function LazyVideo({
 					className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-700 ${
 						// Hide poster when video is loaded and visible
 						// On mobile, if shouldLoad is true, video should be visible, so hide poster
-						shouldLoad && (isIntersecting || priority || reducedMotion) ? 'opacity-0 pointer-events-none' : 'opacity-100'
+						shouldLoad && !printMode && (inView || priority || reducedMotion) ? 'opacity-0 pointer-events-none' : 'opacity-100'
 					}`}
-					loading={priority ? 'eager' : 'lazy'}
+					loading={priority || printMode ? 'eager' : 'lazy'}
 				/>
 			)}
 
-			{shouldLoad && (
+			{shouldLoad && !printMode && (
 				<video
 					ref={videoRef}
-					src={videoUrl}
+					src={isHls ? undefined : videoUrl}
 					poster={posterUrl}
-					preload={priority ? 'auto' : 'metadata'} // RULE-014: Use metadata for non-priority
+					preload={eager ? 'auto' : 'metadata'} // RULE-014: Use metadata for non-priority
 					crossOrigin="anonymous" // Required for mobile browsers CORS (iOS Safari)
 					className={`${videoClassName} transition-opacity duration-700 ${
-						// Show video when intersecting OR when priority/reducedMotion
-						// If shouldLoad is true, video element is rendered, and we show it if intersecting
-						// The safeguard useEffect will ensure isIntersecting is set when shouldLoad is true
-						isIntersecting || priority || reducedMotion ? 'opacity-100' : 'opacity-0'
+						// Show video when in view OR when priority/reducedMotion
+						// (a video preloaded for an upcoming section stays hidden behind its poster)
+						inView || priority || reducedMotion ? 'opacity-100' : 'opacity-0'
 					}`}
 					muted // Always muted for autoplay compatibility
 					controls={!isMuted} // Show controls when unmuted
@@ -341,6 +445,13 @@ export function LazyVideo({
 					onError={(e) => {
 						// Log video loading errors for debugging (especially on mobile)
 						const video = e.currentTarget;
+						if (useLowRendition) {
+							// No _720p sibling uploaded: fall back to the original file
+							console.warn(`[LazyVideo] Low rendition ${videoUrl} failed, using ${fileUrl}`);
+							savedTimeRef.current = video.currentTime;
+							setLowRenditionFailed(true);
+							return;
+						}
 						console.error('[LazyVideo] Video loading error:', {
 							src: videoUrl,
 							error: video.error?.message || 'Unknown error',
@@ -351,20 +462,55 @@ export function LazyVideo({
 						// Don't prevent default - let browser handle error display
 					}}
 					{...props}
-				/>
+				>
+					{tracks.map((track) => (
+						<track
+							key={`${track.kind ?? 'captions'}-${track.srclang}-${track.src}`}
+							kind={track.kind ?? 'captions'}
+							src={videoTrackUrl(track)}
+							srcLang={track.srclang}
+							label={track.label}
+						/>
+					))}
+				</video>
 			)}
 
-			{/* Unmute button for full page reel elements */}
-			{showUnmuteButton && isMuted && shouldLoad && (
+			{/* Poster only until tapped on slow connections / data saving */}
+			{clickToPlay && !printMode && (
 				<button
 					type="button"
-					onClick={handleUnmute}
-					className="absolute bottom-0 left-1/2 -translate-x-1/2 text-white text-[20px] lowercase italic font-bold pb-4 z-10 hover:opacity-80 transition-opacity"
-					aria-label="Unmute audio"
+					onClick={handlePlayRequest}
+					className="absolute inset-0 flex items-end justify-center pb-4 text-white text-[20px] lowercase italic font-bold hover:opacity-80 transition-opacity z-10"
+					aria-label="Play video"
 				>
-					{unmuteButtonText}
+					{playButtonText}
 				</button>
 			)}
+
+			{/* Unmute button (and caption toggle) for full page reel elements */}
+			{showUnmuteButton && isMuted && shouldLoad && !printMode && (
+				<div className="absolute bottom-0 left-1/2 -translate-x-1/2 flex items-center gap-6 pb-4 z-10">
+					<button
+						type="button"
+						onClick={handleUnmute}
+						className="text-white text-[20px] lowercase italic font-bold hover:opacity-80 transition-opacity"
+						aria-label="Unmute audio"
+					>
+						{unmuteButtonText}
+					</button>
+					{hasCaptions && (
+						<button
+							type="button"
+							onClick={handleCaptionsToggle}
+							className={`text-white text-[20px] lowercase italic font-bold hover:opacity-80 transition-opacity ${captionsOn ? '' : 'line-through opacity-60'}`}
+							aria-pressed={captionsOn}
+							aria-label="Captions"
+						>
+							{captionsButtonText}
+						</button>
+					)}
+				</div>
+			)}
 		</div>
 	);
 }
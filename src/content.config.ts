@@ -0,0 +1,25 @@
+/**
+ * Content collections
+ * RULE-006: Case study data is validated with Zod at build time
+ *
+ * Each case study is an ordered list of section blocks. A block names the
+ * section component to render (`type`) and the props passed to it (`props`).
+ * Block props are validated by the block registry in src/lib/block-schemas.ts and
+ * src/pages/case-study/[slug].astro renders them in order via DeckRenderer.
+ */
+
+import { defineCollection, z } from 'astro:content';
+import { glob } from 'astro/loaders';
+import { deckBlockSchema } from './lib/block-schemas';
+
+const caseStudies = defineCollection({
+	loader: glob({ pattern: '*.json', base: './src/content/case-studies' }),
+	schema: z.object({
+		title: z.string(),
+		// Meta/Open Graph description for link previews
+		description: z.string().min(1),
+		blocks: z.array(deckBlockSchema).min(1),
+	}),
+});
+
+export const collections = { caseStudies };
@@ -0,0 +1,91 @@
+/**
+ * Anchor check integration
+ * Fails the build when an internal link points at a page or section id that
+ * does not exist, e.g. `/services#influencer-marketing` after the section was
+ * renamed. Without this the link silently lands at the top of the page.
+ *
+ * Runs on the built HTML, so ids generated by hash-scroll for sections without
+ * one are resolved the same way the browser resolves them (see ./html-scan.ts).
+ */
+
+import { readFile } from 'node:fs/promises';
+import type { AstroConfig, AstroIntegration } from 'astro';
+import { pageFile, pagePath, scanIds, scanLinks } from './html-scan';
+
+interface DeadLink {
+	page: string;
+	href: string;
+	reason: string;
+}
+
+// "/services", "/services/" and "/services/index.html" are the same page
+function normalizePath(path: string): string {
+	const trimmed = path.replace(/\/index\.html$/, '').replace(/\.html$/, '').replace(/\/+$/, '');
+	return trimmed || '/';
+}
+
+export default function anchorCheck(): AstroIntegration {
+	let config: AstroConfig;
+
+	return {
+		name: 'anchor-check',
+		hooks: {
+			'astro:config:done': ({ config: resolvedConfig }) => {
+				config = resolvedConfig;
+			},
+			'astro:build:done': async ({ dir, pages, logger }) => {
+				const format = config.build.format;
+				// Base for resolving relative hrefs; only the origin matters for internal checks
+				const origin = config.site ? new URL(config.site).origin : 'http://localhost';
+
+				const idsByPage = new Map<string, Set<string>>();
+				const linksByPage = new Map<string, string[]>();
+				for (const { pathname } of pages) {
+					const html = await readFile(pageFile(dir, pathname, format), 'utf-8');
+					const path = pagePath(pathname, format);
+					idsByPage.set(normalizePath(path), scanIds(html));
+					linksByPage.set(path, scanLinks(html));
+				}
+
+				const deadLinks: DeadLink[] = [];
+				let checked = 0;
+				for (const [page, links] of linksByPage) {
+					for (const href of links) {
+						let url: URL;
+						try {
+							url = new URL(href, new URL(page, origin));
+						} catch {
+							checked++;
+							deadLinks.push({ page, href, reason: 'malformed URL' });
+							continue;
+						}
+						// External links and bare "#" placeholders are out of scope
+						if (url.origin !== origin || url.hash.length <= 1) continue;
+
+						checked++;
+						let fragment: string;
+						try {
+							fragment = decodeURIComponent(url.hash.slice(1));
+						} catch {
+							deadLinks.push({ page, href, reason: 'malformed percent-encoding in the fragment' });
+							continue;
+						}
+						const targetIds = idsByPage.get(normalizePath(url.pathname));
+						if (!targetIds) {
+							deadLinks.push({ page, href, reason: `no page at ${url.pathname}` });
+						} else if (!targetIds.has(fragment)) {
+							deadLinks.push({ page, href, reason: `no element with id "${fragment}" on ${url.pathname}` });
+						}
+					}
+				}
+
+				if (deadLinks.length > 0) {
+					deadLinks.forEach((link) => logger.error(`${link.page}: ${link.href} (${link.reason})`));
+					throw new Error(`[anchor-check] ${deadLinks.length} dead link(s) found, see the report above`);
+				}
+
+				logger.info(`Checked ${checked} internal anchor links`);
+			},
+		},
+	};
+}
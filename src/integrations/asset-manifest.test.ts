@@ -0,0 +1,88 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import type { AstroIntegrationLogger } from 'astro';
+import sharp from 'sharp';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { describeImage, updateManifest } from './asset-manifest';
+
+// Solid-colour images; sharp's dominant colour is the centre of a 16-level bin
+const solid = (width: number, height: number, background: string) =>
+	sharp({ create: { width, height, channels: 3, background } });
+const RED = { width: 40, height: 20, color: '#f80808' };
+
+const fakeLogger = () => ({ info: vi.fn(), warn: vi.fn() });
+
+describe('describeImage', () => {
+	it('reads the size, dominant colour and a 16px WebP placeholder', async () => {
+		const entry = await describeImage(await solid(40, 20, '#ff0000').png().toBuffer());
+		expect(entry).toMatchObject(RED);
+		expect(entry.placeholder).toMatch(/^data:image\/webp;base64,/);
+		const placeholder = Buffer.from(entry.placeholder.split(',')[1], 'base64');
+		expect(await sharp(placeholder).metadata()).toMatchObject({ format: 'webp', width: 16, height: 8 });
+	});
+
+	it('swaps width and height for EXIF-rotated photos', async () => {
+		const rotated = await solid(30, 10, '#0000ff').jpeg().withMetadata({ orientation: 6 }).toBuffer();
+		expect(await describeImage(rotated)).toMatchObject({ width: 10, height: 30, color: '#0808f8' });
+	});
+
+	it('rejects files that are not images', async () => {
+		await expect(describeImage(Buffer.from('not an image'))).rejects.toThrow();
+	});
+});
+
+describe('updateManifest', () => {
+	let root: string;
+	const srcDir = () => join(root, 'src');
+	const publicDir = () => join(root, 'public');
+	const fixturesDir = () => join(root, 'fixtures');
+	const manifest = () => JSON.parse(readFileSync(join(srcDir(), 'lib/asset-manifest.json'), 'utf-8'));
+
+	const write = (file: string, contents: string | Buffer) => {
+		mkdirSync(dirname(file), { recursive: true });
+		writeFileSync(file, contents);
+	};
+
+	beforeEach(async () => {
+		root = mkdtempSync(join(tmpdir(), 'asset-manifest-'));
+		write(join(srcDir(), 'pages/index.astro'), [
+			'<LazyImage src="/wp-content/uploads/2025/02/hero.png" />',
+			'<BunnyBackground image="/wp-content/uploads/2025/02/missing.jpg" />',
+			'<img src="/favicon.png" />', // Served from public/
+			'<!-- <img src="/commented-out.jpg" /> -->',
+		].join('\n'));
+		write(join(srcDir(), 'pages/index.test.ts'), `const fake = '/only-in-a-test.jpg';`);
+		write(join(srcDir(), 'lib/asset-manifest.json'), '{}\n');
+		write(join(publicDir(), 'favicon.png'), await solid(8, 8, '#ffffff').png().toBuffer());
+		write(join(fixturesDir(), 'wp-content/uploads/2025/02/hero.png'), await solid(40, 20, '#ff0000').png().toBuffer());
+	});
+
+	afterEach(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+
+	it('describes the referenced images from ASSET_FIXTURES_DIR and reports the unreadable ones', async () => {
+		const logger = fakeLogger();
+		await updateManifest(srcDir(), publicDir(), { ASSET_FIXTURES_DIR: fixturesDir() }, logger as unknown as AstroIntegrationLogger);
+
+		expect(Object.keys(manifest())).toEqual(['/wp-content/uploads/2025/02/hero.png']);
+		expect(manifest()['/wp-content/uploads/2025/02/hero.png']).toMatchObject(RED);
+		expect(logger.info).toHaveBeenCalledWith('1/2 images in manifest (1 added, 0 pruned)');
+		expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('1 image(s) could not be read'));
+		expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('/wp-content/uploads/2025/02/missing.jpg (ENOENT'));
+	});
+
+	it('keeps known entries without reading them again and prunes unreferenced ones', async () => {
+		const known = { width: 1920, height: 1080, color: '#000000', placeholder: 'data:image/webp;base64,' };
+		write(join(srcDir(), 'lib/asset-manifest.json'), JSON.stringify({
+			'/wp-content/uploads/2025/02/hero.png': known,
+			'/wp-content/uploads/2024/01/removed.jpg': known,
+		}));
+		const logger = fakeLogger();
+		await updateManifest(srcDir(), publicDir(), { ASSET_FIXTURES_DIR: fixturesDir() }, logger as unknown as AstroIntegrationLogger);
+
+		expect(manifest()).toEqual({ '/wp-content/uploads/2025/02/hero.png': known });
+		expect(logger.info).toHaveBeenCalledWith('1/2 images in manifest (0 added, 1 pruned)');
+	});
+});
@@ -0,0 +1,191 @@
+/**
+ * Asset manifest integration
+ * src/lib/asset-manifest.json records each image the site references: intrinsic
+ * width/height, dominant colour and a tiny inline placeholder (see
+ * src/lib/asset-manifest.ts for how components use it).
+ *
+ * Builds and the dev server only read the committed manifest and warn about images
+ * missing from it. Regenerating it downloads the originals, so it is an explicit step:
+ * `npm run asset-manifest` (ASSET_MANIFEST=update astro sync); commit the result.
+ *
+ * Sources are found by scanning src/ for root-relative image paths, i.e. the strings
+ * passed to bunnyImage, LazyImage, BunnyBackground and LazyVideo posters. Only paths
+ * missing from the manifest are fetched and paths no longer referenced are pruned.
+ *
+ * Offline regeneration:
+ * - ASSET_FIXTURES_DIR=./fixtures/media reads `<dir>/<path>` from disk instead of the CDN
+ * - or point PUBLIC_BUNNY_CDN_URL(_<ZONE>) at a local mock CDN
+ * Images that cannot be read are reported and skipped; components fall back to bunnyThumbnail.
+ */
+
+import { existsSync } from 'node:fs';
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { AstroIntegration, AstroIntegrationLogger } from 'astro';
+import sharp from 'sharp';
+import { inferPullZone } from '../lib/media-paths';
+import type { AssetEntry, AssetManifest } from '../lib/asset-manifest';
+import { cdnUrl, loadBuildEnv, type Env } from './build-env';
+
+const MANIFEST_PATH = 'lib/asset-manifest.json'; // Relative to srcDir
+const SOURCE_EXTENSIONS = new Set(['.astro', '.ts', '.tsx', '.json']);
+// Quoted root-relative path ending in a raster image extension (no interpolation)
+const IMAGE_PATH_PATTERN = /["'`](\/[^"'`\s?#${}]+\.(?:jpe?g|png|webp|avif|gif))["'`]/gi;
+// Block, HTML and line comments (doc examples are not real sources); `://` is kept
+const COMMENT_PATTERN = /\/\*[\s\S]*?\*\/|<!--[\s\S]*?-->|(?<!:)\/\/.*$/gm;
+
+const PLACEHOLDER_SIZE = 16;
+const FETCH_TIMEOUT = 30000;
+const CONCURRENCY = 4;
+
+/**
+ * Every image path referenced in source files, excluding files served from public/
+ */
+async function findImagePaths(srcDir: string, publicDir: string): Promise<string[]> {
+	const manifestFile = join(srcDir, MANIFEST_PATH);
+	const files = (await readdir(srcDir, { recursive: true }))
+		.map((file) => join(srcDir, file))
+		// Test fixtures reference made-up media
+		.filter((file) => SOURCE_EXTENSIONS.has(extname(file)) && file !== manifestFile && !file.endsWith('.test.ts'));
+
+	const paths = new Set<string>();
+	for (const file of files) {
+		const source = (await readFile(file, 'utf-8')).replace(COMMENT_PATTERN, '');
+		for (const match of source.matchAll(IMAGE_PATH_PATTERN)) {
+			paths.add(match[1]);
+		}
+	}
+	return [...paths].filter((path) => !existsSync(join(publicDir, path))).sort();
+}
+
+async function readOriginal(path: string, env: Env, fixturesDir: string | undefined): Promise<Buffer> {
+	if (fixturesDir) {
+		return readFile(join(fixturesDir, path));
+	}
+
+	const base = cdnUrl(env, inferPullZone(path));
+	if (!base) {
+		throw new Error('no CDN URL configured');
+	}
+	const response = await fetch(`${base}${path}`, { signal: AbortSignal.timeout(FETCH_TIMEOUT) });
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status}`);
+	}
+	return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Manifest entry for an image: displayed size, dominant colour and inline placeholder
+ */
+export async function describeImage(buffer: Buffer): Promise<AssetEntry> {
+	const metadata = await sharp(buffer).metadata();
+	if (!metadata.width || !metadata.height) {
+		throw new Error('could not read image dimensions');
+	}
+	// EXIF orientations 5-8 are rotated by 90 degrees when displayed
+	const rotated = (metadata.orientation ?? 1) >= 5;
+
+	const { dominant } = await sharp(buffer).stats();
+	const color = `#${[dominant.r, dominant.g, dominant.b].map((channel) => channel.toString(16).padStart(2, '0')).join('')}`;
+
+	const placeholder = await sharp(buffer)
+		.rotate()
+		.resize(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE, { fit: 'inside' })
+		.webp({ quality: 30 })
+		.toBuffer();
+
+	return {
+		width: rotated ? metadata.height : metadata.width,
+		height: rotated ? metadata.width : metadata.height,
+		color,
+		placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+	};
+}
+
+async function loadManifest(file: string): Promise<AssetManifest> {
+	try {
+		return JSON.parse(await readFile(file, 'utf-8')) as AssetManifest;
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Rewrite the manifest for the images src/ references: keeps known entries, reads the
+ * missing originals (ASSET_FIXTURES_DIR or the CDN) and prunes paths no longer referenced
+ */
+export async function updateManifest(srcDir: string, publicDir: string, env: Env, logger: AstroIntegrationLogger): Promise<void> {
+	const manifestFile = join(srcDir, MANIFEST_PATH);
+	const fixturesDir = env.ASSET_FIXTURES_DIR || undefined;
+	const previous = await loadManifest(manifestFile);
+	const paths = await findImagePaths(srcDir, publicDir);
+
+	const next: AssetManifest = {};
+	const missing = paths.filter((path) => {
+		if (previous[path]) {
+			next[path] = previous[path];
+			return false;
+		}
+		return true;
+	});
+
+	const failures: string[] = [];
+	const queue = [...missing];
+	const worker = async (): Promise<void> => {
+		for (let path = queue.shift(); path; path = queue.shift()) {
+			try {
+				next[path] = await describeImage(await readOriginal(path, env, fixturesDir));
+			} catch (error) {
+				failures.push(`${path} (${error instanceof Error ? error.message : String(error)})`);
+			}
+		}
+	};
+	await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+
+	const sorted = Object.fromEntries(Object.entries(next).sort(([a], [b]) => a.localeCompare(b)));
+	const output = `${JSON.stringify(sorted, null, '\t')}\n`;
+	if (output !== JSON.stringify(previous, null, '\t') + '\n') {
+		await writeFile(manifestFile, output);
+	}
+
+	const added = missing.length - failures.length;
+	const pruned = Object.keys(previous).filter((path) => !next[path]).length;
+	logger.info(`${Object.keys(sorted).length}/${paths.length} images in manifest (${added} added, ${pruned} pruned)`);
+	if (failures.length > 0) {
+		const shown = failures.slice(0, 5).join('\n  - ');
+		const more = failures.length > 5 ? `\n  ... and ${failures.length - 5} more` : '';
+		logger.warn(`${failures.length} image(s) could not be read, using bunnyThumbnail placeholders:\n  - ${shown}${more}`);
+	}
+}
+
+/**
+ * Read-only check for builds: report referenced images the manifest doesn't cover
+ */
+async function checkManifest(srcDir: string, publicDir: string, logger: AstroIntegrationLogger): Promise<void> {
+	const manifest = await loadManifest(join(srcDir, MANIFEST_PATH));
+	const paths = await findImagePaths(srcDir, publicDir);
+	const missing = paths.filter((path) => !manifest[path]);
+	if (missing.length > 0) {
+		logger.warn(`${missing.length}/${paths.length} images are not in the manifest (bunnyThumbnail placeholders, no reserved aspect ratio); run \`npm run asset-manifest\` and commit src/${MANIFEST_PATH}`);
+	}
+}
+
+export default function assetManifest(): AstroIntegration {
+	return {
+		name: 'asset-manifest',
+		hooks: {
+			'astro:config:setup': async ({ command, config, logger }) => {
+				const srcDir = fileURLToPath(config.srcDir);
+				const publicDir = fileURLToPath(config.publicDir);
+				const env = loadBuildEnv(command === 'dev' ? 'development' : 'production', config.root);
+
+				if (env.ASSET_MANIFEST === 'update') {
+					await updateManifest(srcDir, publicDir, env, logger);
+				} else if (command === 'build' || command === 'dev') {
+					await checkManifest(srcDir, publicDir, logger);
+				}
+			},
+		},
+	};
+}
@@ -0,0 +1,25 @@
+/**
+ * Build-time env helpers shared by the build integrations
+ * Integrations run outside Vite's client env, so import.meta.env has no PUBLIC_
+ * variables there; they load the env themselves and resolve CDN URLs here.
+ */
+
+import { fileURLToPath } from 'node:url';
+import { loadEnv } from 'vite';
+
+export type Env = Record<string, string>;
+
+/**
+ * Every variable from the shell and .env files (not only PUBLIC_), so build-only
+ * settings like ASSET_FIXTURES_DIR can live in .env too
+ */
+export function loadBuildEnv(mode: 'production' | 'development', root: URL): Env {
+	return loadEnv(mode, fileURLToPath(root), '');
+}
+
+// Same lookup as pullZoneUrl in src/lib/cdn-config.ts, against the build's env
+export function cdnUrl(env: Env, pullZone?: string): string | undefined {
+	const zoneUrl = pullZone ? env[`PUBLIC_BUNNY_CDN_URL_${pullZone.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`] : undefined;
+	const url = zoneUrl || env.PUBLIC_BUNNY_CDN_URL;
+	return url?.replace(/\/$/, '');
+}
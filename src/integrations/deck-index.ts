@@ -0,0 +1,89 @@
+/**
+ * Deck index integration
+ * Publishes what routes and anchors exist after every build:
+ * - sitemap.xml: every built page (requires `site` in astro.config.mjs)
+ * - robots.txt: allow all + sitemap location
+ * - sections.json: each page's snap sections with their ids and titles
+ *
+ * Section ids are read from the built HTML (see ./html-scan.ts).
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import type { AstroConfig, AstroIntegration } from 'astro';
+import { pageFile, pagePath, pageTitle, scanSections, type SectionEntry } from './html-scan';
+
+export interface PageEntry {
+	path: string;
+	title: string;
+	sections: SectionEntry[];
+}
+
+export interface SectionIndex {
+	site: string | null;
+	pages: PageEntry[];
+}
+
+export const SECTION_INDEX_FILE = 'sections.json';
+
+function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;');
+}
+
+function buildSitemap(site: URL, pages: PageEntry[]): string {
+	const urls = pages
+		.map((page) => `\t<url>\n\t\t<loc>${escapeXml(new URL(page.path, site).href)}</loc>\n\t</url>`)
+		.join('\n');
+	return `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${urls}\n</urlset>\n`;
+}
+
+function buildRobots(site: URL | undefined): string {
+	const lines = ['User-agent: *', 'Allow: /'];
+	if (site) lines.push('', `Sitemap: ${new URL('/sitemap.xml', site).href}`);
+	return `${lines.join('\n')}\n`;
+}
+
+export default function deckIndex(): AstroIntegration {
+	let config: AstroConfig;
+
+	return {
+		name: 'deck-index',
+		hooks: {
+			'astro:config:done': ({ config: resolvedConfig }) => {
+				config = resolvedConfig;
+			},
+			'astro:build:done': async ({ dir, pages, logger }) => {
+				const format = config.build.format;
+				const site = config.site ? new URL(config.site) : undefined;
+
+				const entries: PageEntry[] = [];
+				for (const { pathname } of pages) {
+					const html = await readFile(pageFile(dir, pathname, format), 'utf-8');
+					entries.push({
+						path: pagePath(pathname, format),
+						title: pageTitle(html),
+						sections: scanSections(html),
+					});
+				}
+				entries.sort((a, b) => a.path.localeCompare(b.path));
+
+				const index: SectionIndex = { site: site?.href ?? null, pages: entries };
+				await writeFile(new URL(SECTION_INDEX_FILE, dir), `${JSON.stringify(index, null, '\t')}\n`);
+
+				if (site) {
+					await writeFile(new URL('sitemap.xml', dir), buildSitemap(site, entries));
+				} else {
+					logger.warn('`site` is not set in astro.config.mjs, skipping sitemap.xml');
+				}
+				await writeFile(new URL('robots.txt', dir), buildRobots(site));
+
+				const sectionCount = entries.reduce((total, page) => total + page.sections.length, 0);
+				logger.info(`Indexed ${entries.length} pages and ${sectionCount} sections`);
+			},
+		},
+	};
+}
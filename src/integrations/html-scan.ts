@@ -0,0 +1,198 @@
+/**
+ * Built HTML scanning helpers shared by the build integrations
+ * Regex based on purpose: the input is Astro's own output, not arbitrary HTML.
+ *
+ * Sections without an id get the same generated id the hash-scroll manager
+ * assigns in the browser (src/lib/section-ids.ts).
+ */
+
+import type { AstroConfig } from 'astro';
+import { generatedSectionId } from '../lib/section-ids';
+
+export interface SectionEntry {
+	id: string;
+	title: string;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+		if (entity[0] === '#') {
+			const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+			return Number.isNaN(code) ? match : String.fromCodePoint(code);
+		}
+		return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+	});
+}
+
+function textContent(html: string): string {
+	return decodeEntities(html.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+function attribute(tagAttributes: string, name: string): string | undefined {
+	const match = tagAttributes.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`, 'i'));
+	return match ? decodeEntities(match[1]) : undefined;
+}
+
+// Markup inside <script>/<style> is code, not document content
+function stripCode(html: string): string {
+	return html.replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, '');
+}
+
+// "c4-ooh-activation" -> "c4 ooh activation"
+function titleFromId(id: string): string {
+	return id.replace(/[-_]+/g, ' ').trim();
+}
+
+/**
+ * Collect the snap sections (`section[class*="snap-start"]`) of a built page, in
+ * document order, the same set hash-scroll.ts navigates between
+ */
+export function scanSections(html: string): SectionEntry[] {
+	const content = stripCode(html);
+	const tags = [...content.matchAll(/<section\b([^>]*)>/gi)];
+	const sections: SectionEntry[] = [];
+
+	tags.forEach((tag, tagIndex) => {
+		const attributes = tag[1];
+		if (!(attribute(attributes, 'class') ?? '').includes('snap-start')) return;
+
+		// Content up to the next section tag (sections are never nested in this deck)
+		const start = (tag.index ?? 0) + tag[0].length;
+		const end = tagIndex + 1 < tags.length ? tags[tagIndex + 1].index ?? content.length : content.length;
+		const heading = content.slice(start, end).match(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/i);
+		const headingText = heading ? textContent(heading[2]) : '';
+
+		const id = attribute(attributes, 'id') || generatedSectionId(headingText, sections.length);
+		sections.push({ id, title: headingText || titleFromId(id) });
+	});
+
+	return sections;
+}
+
+export function pageTitle(html: string): string {
+	const match = html.match(/<title>([\s\S]*?)<\/title>/i);
+	return match ? textContent(match[1]) : '';
+}
+
+/**
+ * Built HTML file for a page pathname ('' for the home page, 'services/' etc.)
+ */
+export function pageFile(dir: URL, pathname: string, format: AstroConfig['build']['format']): URL {
+	const trimmed = pathname.replace(/^\/|\/$/g, '');
+	if (!trimmed) return new URL('index.html', dir);
+	return new URL(format === 'file' ? `${trimmed}.html` : `${trimmed}/index.html`, dir);
+}
+
+/**
+ * Public URL path for a page pathname, matching Astro.url.pathname (canonical URLs)
+ */
+export function pagePath(pathname: string, format: AstroConfig['build']['format']): string {
+	const trimmed = pathname.replace(/^\/|\/$/g, '');
+	if (!trimmed) return '/';
+	return format === 'file' ? `/${trimmed}` : `/${trimmed}/`;
+}
+
+/**
+ * Every id a fragment can resolve to on a built page: id attributes on any
+ * element plus the ids hash-scroll generates for snap sections without one
+ */
+export function scanIds(html: string): Set<string> {
+	const ids = new Set<string>();
+	for (const tag of stripCode(html).matchAll(/<[a-z][\w-]*\b([^>]*)>/gi)) {
+		const id = attribute(tag[1], 'id');
+		if (id) ids.add(id);
+	}
+	scanSections(html).forEach((section) => ids.add(section.id));
+	return ids;
+}
+
+/**
+ * href values of every <a> on a built page, in document order
+ */
+export function scanLinks(html: string): string[] {
+	const links: string[] = [];
+	for (const tag of stripCode(html).matchAll(/<a\b([^>]*)>/gi)) {
+		const href = attribute(tag[1], 'href');
+		if (href !== undefined) links.push(href);
+	}
+	return links;
+}
+
+export interface ElementEntry {
+	tag: string; // Lowercase tag name
+	attributes: Record<string, string>; // Decoded values; boolean attributes map to ''
+	content: string; // Inner HTML up to the closing tag, '' for void elements
+}
+
+function parseAttributes(tagAttributes: string): Record<string, string> {
+	const attributes: Record<string, string> = {};
+	for (const match of tagAttributes.matchAll(/([^\s"'=/>]+)(?:="([^"]*)")?/g)) {
+		attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? '');
+	}
+	return attributes;
+}
+
+const VOID_ELEMENTS = new Set(['img', 'source', 'link', 'meta', 'input', 'br', 'hr', 'track']);
+
+/**
+ * Elements with one of the given tag names outside <script>/<style>, in document order
+ * @example scanElements(html, ['img', 'video'])
+ */
+export function scanElements(html: string, tags: string[]): ElementEntry[] {
+	const content = stripCode(html);
+	const pattern = new RegExp(`<(${tags.join('|')})\\b([^>]*)>`, 'gi');
+	return [...content.matchAll(pattern)].map((match) => {
+		const tag = match[1].toLowerCase();
+		const start = (match.index ?? 0) + match[0].length;
+		const end = content.indexOf(`</${tag}>`, start);
+		return {
+			tag,
+			attributes: parseAttributes(match[2]),
+			content: VOID_ELEMENTS.has(tag) || end === -1 ? '' : content.slice(start, end),
+		};
+	});
+}
+
+export interface IslandEntry {
+	component: string; // Export name, e.g. "LazyImage"
+	client: string; // Hydration directive, e.g. "visible"
+	props: Record<string, unknown>;
+}
+
+type SerializedProp = [type: number, value?: unknown];
+
+// Astro serializes island props as [type, value] pairs (astro/dist/runtime/server/serialize.js):
+// 0 is a plain value or object, 1 an array; other types (Date, Map...) are left as serialized
+function deserializeProp([type, value]: SerializedProp): unknown {
+	if (type === 1 && Array.isArray(value)) {
+		return value.map((item: SerializedProp) => deserializeProp(item));
+	}
+	if (type === 0 && value !== null && typeof value === 'object') {
+		return deserializeProps(value as Record<string, SerializedProp>);
+	}
+	return value;
+}
+
+function deserializeProps(serialized: Record<string, SerializedProp>): Record<string, unknown> {
+	return Object.fromEntries(Object.entries(serialized).map(([key, prop]) => [key, deserializeProp(prop)]));
+}
+
+/**
+ * Hydrated components (`<astro-island>`) of a built page with their props, in document order
+ */
+export function scanIslands(html: string): IslandEntry[] {
+	return scanElements(html, ['astro-island']).map(({ attributes }) => ({
+		component: attributes['component-export'] ?? '',
+		client: attributes.client ?? '',
+		props: attributes.props ? deserializeProps(JSON.parse(attributes.props)) : {},
+	}));
+}
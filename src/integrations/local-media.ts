@@ -0,0 +1,185 @@
+/**
+ * Local media integration
+ * Serves the project's media/ folder at /_media in the dev server for the local
+ * media provider (src/lib/local-media-provider.ts), so the deck can be developed
+ * offline without Bunny CDN env vars.
+ *
+ * Images are resized and converted on the fly with sharp from the same query
+ * parameters Bunny Optimizer takes (width, height, quality, aspect_ratio, format).
+ * Everything else (videos, HLS playlists and segments) is served as-is with
+ * Range support so video seeking works.
+ *
+ * Dev only: production builds should use the bunny provider. Point
+ * ASSET_FIXTURES_DIR at ./media to build the asset manifest from the same files.
+ */
+
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { extname, resolve, sep } from 'node:path';
+import type { AstroIntegration, AstroIntegrationLogger } from 'astro';
+import sharp from 'sharp';
+import { LOCAL_MEDIA_PREFIX } from '../lib/local-media-provider';
+import { loadBuildEnv } from './build-env';
+
+const MEDIA_DIR = 'media';
+const MAX_CACHED_IMAGES = 200;
+
+const CONTENT_TYPES: Record<string, string> = {
+	'.jpg': 'image/jpeg',
+	'.jpeg': 'image/jpeg',
+	'.png': 'image/png',
+	'.webp': 'image/webp',
+	'.avif': 'image/avif',
+	'.gif': 'image/gif',
+	'.svg': 'image/svg+xml',
+	'.mp4': 'video/mp4',
+	'.webm': 'video/webm',
+	'.mov': 'video/quicktime',
+	'.m3u8': 'application/vnd.apple.mpegurl',
+	'.ts': 'video/mp2t',
+	'.vtt': 'text/vtt',
+};
+
+const TRANSFORMABLE = new Set(['.jpg', '.jpeg', '.png', '.webp', '.avif']);
+const FORMATS = new Set(['avif', 'webp', 'jpeg', 'png']);
+
+interface TransformedImage {
+	body: Buffer;
+	contentType: string;
+}
+
+function positiveInt(value: string | null): number | undefined {
+	const number = value ? parseInt(value, 10) : NaN;
+	return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+/**
+ * Bunny Optimizer parameters applied with sharp; never enlarges the original
+ */
+async function transformImage(file: string, params: URLSearchParams): Promise<TransformedImage> {
+	const width = positiveInt(params.get('width'));
+	let height = positiveInt(params.get('height'));
+	const quality = positiveInt(params.get('quality'));
+	const aspectRatio = params.get('aspect_ratio')?.match(/^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/);
+	if (width && !height && aspectRatio) {
+		height = Math.round((width * Number(aspectRatio[2])) / Number(aspectRatio[1]));
+	}
+
+	const requestedFormat = params.get('format');
+	const originalFormat = extname(file).slice(1).toLowerCase().replace('jpg', 'jpeg');
+	const format = (requestedFormat && FORMATS.has(requestedFormat) ? requestedFormat : originalFormat) as keyof sharp.FormatEnum;
+
+	const body = await sharp(file)
+		.rotate()
+		.resize(width, height, { fit: 'cover', withoutEnlargement: true })
+		.toFormat(format, quality ? { quality } : {})
+		.toBuffer();
+	return { body, contentType: `image/${format}` };
+}
+
+function sendFile(file: string, size: number, req: IncomingMessage, res: ServerResponse): void {
+	const contentType = CONTENT_TYPES[extname(file).toLowerCase()] ?? 'application/octet-stream';
+	res.setHeader('Content-Type', contentType);
+	res.setHeader('Accept-Ranges', 'bytes');
+	res.setHeader('Cache-Control', 'no-cache');
+
+	const range = req.headers.range?.match(/^bytes=(\d*)-(\d*)$/);
+	if (range && (range[1] || range[2])) {
+		// "bytes=-500" is the last 500 bytes
+		const start = range[1] ? Number(range[1]) : Math.max(size - Number(range[2]), 0);
+		const end = range[1] && range[2] ? Math.min(Number(range[2]), size - 1) : size - 1;
+		if (start > end || start >= size) {
+			res.statusCode = 416;
+			res.setHeader('Content-Range', `bytes */${size}`);
+			res.end();
+			return;
+		}
+		res.statusCode = 206;
+		res.setHeader('Content-Range', `bytes ${start}-${end}/${size}`);
+		res.setHeader('Content-Length', end - start + 1);
+		if (req.method === 'HEAD') {
+			res.end();
+			return;
+		}
+		createReadStream(file, { start, end }).pipe(res);
+		return;
+	}
+
+	res.setHeader('Content-Length', size);
+	if (req.method === 'HEAD') {
+		res.end();
+		return;
+	}
+	createReadStream(file).pipe(res);
+}
+
+function createHandler(mediaDir: string, logger: AstroIntegrationLogger) {
+	const cache = new Map<string, TransformedImage>();
+	const reportedMissing = new Set<string>();
+
+	return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+		// Mounted at LOCAL_MEDIA_PREFIX, so the URL is relative to media/
+		const url = new URL(req.url ?? '/', 'http://localhost');
+		const relativePath = decodeURIComponent(url.pathname);
+		const file = resolve(mediaDir, `.${relativePath}`);
+		if (!file.startsWith(mediaDir + sep)) {
+			res.statusCode = 403;
+			res.end();
+			return;
+		}
+
+		const stats = await stat(file).catch(() => undefined);
+		if (!stats?.isFile()) {
+			if (!reportedMissing.has(relativePath)) {
+				reportedMissing.add(relativePath);
+				logger.warn(`${MEDIA_DIR}${relativePath} not found`);
+			}
+			res.statusCode = 404;
+			res.end();
+			return;
+		}
+
+		if (!TRANSFORMABLE.has(extname(file).toLowerCase()) || !url.search) {
+			sendFile(file, stats.size, req, res);
+			return;
+		}
+
+		// Keyed by modification time so edited originals are picked up
+		const key = `${file}${url.search}@${stats.mtimeMs}`;
+		let image = cache.get(key);
+		if (!image) {
+			image = await transformImage(file, url.searchParams);
+			cache.set(key, image);
+			if (cache.size > MAX_CACHED_IMAGES) {
+				cache.delete(cache.keys().next().value as string);
+			}
+		}
+		res.setHeader('Content-Type', image.contentType);
+		res.setHeader('Content-Length', image.body.length);
+		res.setHeader('Cache-Control', 'no-cache');
+		res.end(req.method === 'HEAD' ? undefined : image.body);
+	};
+}
+
+export default function localMedia(): AstroIntegration {
+	return {
+		name: 'local-media',
+		hooks: {
+			'astro:config:setup': ({ command, config, logger }) => {
+				if (command !== 'build') return;
+				const env = loadBuildEnv('production', config.root);
+				if (env.PUBLIC_MEDIA_PROVIDER === 'local') {
+					logger.warn(`PUBLIC_MEDIA_PROVIDER=local: ${LOCAL_MEDIA_PREFIX} URLs are only served by the dev server`);
+				}
+			},
+			'astro:server:setup': ({ server, logger }) => {
+				const mediaDir = resolve(server.config.root, MEDIA_DIR);
+				const handle = createHandler(mediaDir, logger);
+				server.middlewares.use(LOCAL_MEDIA_PREFIX, (req, res, next) => {
+					handle(req, res).catch(next);
+				});
+			},
+		},
+	};
+}
@@ -0,0 +1,138 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { budgetFor, measureAll, pageReport, requestUrl, scanMediaRequests, type PageWeightConfig } from './page-weight';
+
+const ENV = {
+	PUBLIC_BUNNY_CDN_URL: 'https://cdn.example.com',
+	PUBLIC_BUNNY_CDN_URL_WORDPRESS: 'https://wp.example.com',
+	PUBLIC_BUNNY_STREAM_URL: 'https://vz.example.com',
+};
+
+// Bytes per path on the mock CDN; query strings (Optimizer parameters) are ignored
+const FILES: Record<string, number> = {
+	'/hero.jpg': 400_000,
+	'/poster.jpg': 200_000,
+	'/below.jpg': 900_000,
+	'/loop.mp4': 2_500_000, // Chunked: no Content-Length on HEAD
+	'/clip.mp4': 5_000_000,
+	'/wp-content/uploads/2025/02/still.jpg': 300_000,
+};
+const CHUNKED = new Set(['/loop.mp4']);
+
+const BUDGETS: PageWeightConfig['budgets'] = {
+	'*': { priorityKb: 1500, totalKb: 40000 },
+	'/case-studies/': { priorityKb: 5000 },
+	'/case-study/*': { priorityKb: 2000, totalKb: 80000 },
+	'/case-study/c4-*': { totalKb: 5000 },
+};
+
+// Island props the way Astro serializes them: [0, value] pairs, entity-encoded in the attribute
+function island(component: string, props: Record<string, unknown>): string {
+	const serialized = JSON.stringify(Object.fromEntries(Object.entries(props).map(([key, value]) => [key, [0, value]])));
+	return `<astro-island component-export="${component}" client="visible" props="${serialized.replace(/"/g, '&quot;')}"></astro-island>`;
+}
+
+const PAGE = `
+<link rel="preload" as="image" href="https://cdn.example.com/hero.jpg?width=960" imagesrcset="https://cdn.example.com/hero.jpg?width=960 960w, https://cdn.example.com/hero.jpg?width=1920 1920w">
+<img src="https://cdn.example.com/hero.jpg?width=960" srcset="https://cdn.example.com/hero.jpg?width=960 960w, https://cdn.example.com/hero.jpg?width=1920 1920w" alt="">
+<img src="data:image/webp;base64,UklGRjQAAABXRUJQ" alt="">
+<img src="https://cdn.example.com/poster.jpg" loading="lazy" alt="">
+<img src="https://cdn.example.com/below.jpg" loading="lazy" alt="">
+<video autoplay muted loop poster="https://cdn.example.com/poster.jpg"><source src="https://cdn.example.com/loop.mp4" type="video/mp4"></video>
+<video preload="none" src="https://cdn.example.com/clip.mp4"></video>
+<script>const fake = '<img src="https://cdn.example.com/in-script.jpg">';</script>
+${island('LazyImage', { src: '/wp-content/uploads/2025/02/still.jpg', pullZone: 'wordpress', width: 1200, quality: 85, priority: false })}
+${island('LazyVideo', { videoId: 'stream-id' })}
+`;
+
+describe('scanMediaRequests', () => {
+	it('lists the worst-case media of a page, priority before lazy', () => {
+		expect(scanMediaRequests(PAGE, ENV)).toEqual([
+			{ url: 'https://cdn.example.com/hero.jpg?width=1920', kind: 'image', group: 'priority' },
+			{ url: 'https://cdn.example.com/poster.jpg', kind: 'image', group: 'priority' },
+			{ url: 'https://cdn.example.com/below.jpg', kind: 'image', group: 'lazy' },
+			{ url: 'https://cdn.example.com/loop.mp4', kind: 'video', group: 'priority' },
+			{ url: 'https://cdn.example.com/clip.mp4', kind: 'video', group: 'lazy' },
+			{ url: 'https://wp.example.com/wp-content/uploads/2025/02/still.jpg?width=1200&quality=85', kind: 'image', group: 'lazy' },
+			{ url: 'https://vz.example.com/stream-id/playlist.m3u8', kind: 'stream', group: 'lazy' },
+		]);
+	});
+
+	it('keeps island paths raw when the pull zone has no CDN URL', () => {
+		const html = island('LazyImage', { src: '/local.jpg', priority: true });
+		expect(scanMediaRequests(html, {})).toEqual([{ url: '/local.jpg', kind: 'image', group: 'priority' }]);
+	});
+});
+
+describe('budgetFor', () => {
+	it('prefers an exact path, then the longest matching prefix, then "*"', () => {
+		expect(budgetFor('/case-studies/', BUDGETS)).toBe(BUDGETS['/case-studies/']);
+		expect(budgetFor('/case-study/c4-energy/', BUDGETS)).toBe(BUDGETS['/case-study/c4-*']);
+		expect(budgetFor('/case-study/derrick-rose/', BUDGETS)).toBe(BUDGETS['/case-study/*']);
+		expect(budgetFor('/', BUDGETS)).toBe(BUDGETS['*']);
+		expect(budgetFor('/', {})).toBeUndefined();
+	});
+});
+
+describe('against a local CDN', () => {
+	let server: Server;
+	let origin: string;
+	const heads: Record<string, number> = {};
+
+	beforeAll(async () => {
+		server = createServer((request, response) => {
+			const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+			const size = FILES[path];
+			if (size === undefined) {
+				response.writeHead(404).end();
+			} else if (request.method === 'HEAD') {
+				heads[path] = (heads[path] ?? 0) + 1;
+				response.writeHead(200, CHUNKED.has(path) ? { 'Transfer-Encoding': 'chunked' } : { 'Content-Length': size }).end();
+			} else if (request.headers.range === 'bytes=0-0') {
+				response.writeHead(206, { 'Content-Range': `bytes 0-0/${size}`, 'Content-Length': 1 }).end('x');
+			} else {
+				response.writeHead(416).end();
+			}
+		});
+		await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+		origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	});
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	it('measures each URL once, from Content-Length or a one-byte range', async () => {
+		const { sizes, failures } = await measureAll([
+			`${origin}/hero.jpg`,
+			`${origin}/hero.jpg`,
+			`${origin}/loop.mp4`,
+			`${origin}/missing.jpg`,
+		]);
+		expect(Object.fromEntries(sizes)).toEqual({
+			[`${origin}/hero.jpg`]: 400_000,
+			[`${origin}/loop.mp4`]: 2_500_000,
+		});
+		expect(failures).toEqual([`${origin}/missing.jpg (HTTP 404)`]);
+		expect(heads['/hero.jpg']).toBe(1);
+	});
+
+	it('sums a page and reports what is over its budget', async () => {
+		const requests = scanMediaRequests(PAGE, ENV);
+		const measurable = requests.filter((request) => request.kind !== 'stream');
+		const { sizes, failures } = await measureAll(measurable.flatMap((request) => requestUrl(request.url, origin, undefined) ?? []));
+		expect(failures).toEqual([]);
+		const sizeOf = (url: string): number => sizes.get(requestUrl(url, origin, undefined) ?? '') ?? 0;
+
+		const overPriority = pageReport('/case-study/derrick-rose/', requests, sizeOf, budgetFor('/case-study/derrick-rose/', BUDGETS));
+		expect(overPriority).toMatchObject({ priorityBytes: 3_100_000, lazyBytes: 6_200_000, streams: 1 });
+		expect(overPriority.overBudget).toEqual(['priority 3.1 MB / 2.0 MB']);
+
+		const overTotal = pageReport('/case-study/c4-energy/', requests, sizeOf, budgetFor('/case-study/c4-energy/', BUDGETS));
+		expect(overTotal.overBudget).toEqual(['total 9.3 MB / 5.0 MB']);
+
+		expect(pageReport('/case-studies/', requests, sizeOf, budgetFor('/case-studies/', BUDGETS)).overBudget).toEqual([]);
+		expect(pageReport('/', requests, sizeOf, undefined).overBudget).toEqual([]);
+	});
+});
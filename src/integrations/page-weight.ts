@@ -0,0 +1,351 @@
+/**
+ * Page weight integration
+ * Measures the media every built page requests and fails the build when a page
+ * goes over its budget in page-weight.config.json. Off by default because it
+ * needs the network; run `npm run page-weight` (PAGE_WEIGHT=1 astro build).
+ *
+ * Requests are read from the built HTML (see ./html-scan.ts) and split into:
+ * - priority: fetched on page load (eager <img>, preloads, autoplaying videos,
+ *   BunnyBackground layers, blur placeholders and posters)
+ * - lazy: fetched once scrolled near (`loading="lazy"`, LazyImage/LazyVideo islands)
+ * Worst case throughout: the largest srcset/image-set candidate, the <img> fallback
+ * of a <picture> and the whole file for videos. Bunny Stream (HLS) videos are
+ * listed but not measured.
+ *
+ * Sizes come from HEAD requests (Content-Length). URLs are resolved with the
+ * build's CDN env like the components do (see ./build-env.ts). Set `origin` in the
+ * config or PAGE_WEIGHT_ORIGIN to send every request to another origin instead,
+ * path and query kept, e.g. a staging CDN or a local mock server.
+ */
+
+import { readFile } from 'node:fs/promises';
+import type { AstroConfig, AstroIntegration, AstroIntegrationLogger } from 'astro';
+import { bunnyImagePath, widthLadder } from '../lib/media-paths';
+import { cdnUrl, loadBuildEnv, type Env } from './build-env';
+import { pageFile, pagePath, scanElements, scanIslands } from './html-scan';
+
+export const PAGE_WEIGHT_CONFIG_FILE = 'page-weight.config.json';
+
+export interface PageBudget {
+	priorityKb?: number; // Everything fetched on page load
+	totalKb?: number; // Priority + lazy
+}
+
+export interface PageWeightConfig {
+	origin?: string | null; // Overridden by PAGE_WEIGHT_ORIGIN
+	// Keyed by page path ("/case-studies/"); a trailing * matches by prefix, "*" matches every page
+	budgets: Record<string, PageBudget>;
+}
+
+type RequestGroup = 'priority' | 'lazy';
+
+export interface MediaRequest {
+	url: string;
+	kind: 'image' | 'video' | 'stream';
+	group: RequestGroup;
+}
+
+export interface PageReport {
+	path: string;
+	requests: (MediaRequest & { bytes: number })[];
+	streams: number;
+	priorityBytes: number;
+	lazyBytes: number;
+	budget: PageBudget | undefined;
+	overBudget: string[];
+}
+
+const FETCH_TIMEOUT = 30000;
+const CONCURRENCY = 4;
+const HEAVIEST_SHOWN = 5;
+
+/**
+ * Candidate with the largest descriptor in a srcset ("a.jpg 640w, b.jpg 1280w")
+ */
+function largestCandidate(srcset: string): string | undefined {
+	let best: { url: string; size: number } | undefined;
+	for (const candidate of srcset.split(/,\s+/)) {
+		const [url, descriptor = '1x'] = candidate.trim().split(/\s+/);
+		const size = parseFloat(descriptor);
+		if (url && (!best || size > best.size)) {
+			best = { url, size };
+		}
+	}
+	return best?.url;
+}
+
+// Same URL as the components build: CDN URL when the pull zone is configured, raw path otherwise
+function resolveCdnPath(env: Env, path: string, pullZone?: string): string {
+	const base = cdnUrl(env, pullZone);
+	return base ? `${base}${path}` : path;
+}
+
+/**
+ * Media a built page requests; a URL requested both on load and lazily counts as priority
+ */
+export function scanMediaRequests(html: string, env: Env): MediaRequest[] {
+	const requests = new Map<string, MediaRequest>();
+	const add = (url: string | undefined, kind: MediaRequest['kind'], group: RequestGroup): void => {
+		// Inline placeholders are part of the HTML, not a request
+		if (!url || url.startsWith('data:')) return;
+		const existing = requests.get(url);
+		if (!existing || (existing.group === 'lazy' && group === 'priority')) {
+			requests.set(url, { url, kind, group });
+		}
+	};
+
+	// Server-rendered markup, including what islands render before hydrating
+	for (const { tag, attributes, content } of scanElements(html, ['img', 'link', 'video', 'div'])) {
+		if (tag === 'img') {
+			const src = attributes.srcset ? largestCandidate(attributes.srcset) : attributes.src;
+			add(src, 'image', attributes.loading === 'lazy' ? 'lazy' : 'priority');
+		} else if (tag === 'link' && attributes.rel === 'preload' && attributes.as === 'image') {
+			add(attributes.imagesrcset ? largestCandidate(attributes.imagesrcset) : attributes.href, 'image', 'priority');
+		} else if (tag === 'video') {
+			const eager = 'autoplay' in attributes || attributes.preload === 'auto';
+			add(attributes.poster, 'image', 'priority');
+			add(attributes.src, 'video', eager ? 'priority' : 'lazy');
+			for (const source of scanElements(content, ['source'])) {
+				add(source.attributes.src, 'video', eager ? 'priority' : 'lazy');
+			}
+		} else if (tag === 'div' && attributes['data-bunny-background']) {
+			// Tiers run smallest viewport first; the last one is the desktop image
+			const tiers: { url2x: string; thumbnail: string }[] = JSON.parse(attributes['data-bunny-background']);
+			const desktop = tiers[tiers.length - 1];
+			add(desktop?.url2x, 'image', 'priority');
+			add(desktop?.thumbnail, 'image', 'priority');
+		}
+	}
+
+	// Media islands render only a placeholder on the server, their URLs come from props
+	for (const { component, props } of scanIslands(html)) {
+		const group: RequestGroup = props.priority === true ? 'priority' : 'lazy';
+		if (component === 'LazyImage' && typeof props.src === 'string') {
+			const ladder = widthLadder(props.width as number | undefined, props.widths as number[] | undefined);
+			const path = bunnyImagePath(props.src, {
+				width: ladder[ladder.length - 1],
+				height: props.height as number | undefined,
+				quality: props.quality as number | undefined,
+				aspectRatio: props.aspectRatio as string | undefined,
+				format: (props.formats as ('avif' | 'webp')[] | undefined)?.[0],
+			});
+			const pullZone = props.pullZone as string | undefined;
+			add(cdnUrl(env, pullZone) ? resolveCdnPath(env, path, pullZone) : props.src, 'image', group);
+		} else if (component === 'LazyVideo') {
+			if (typeof props.videoId === 'string') {
+				const streamUrl = env.PUBLIC_BUNNY_STREAM_URL?.replace(/\/$/, '');
+				add(`${streamUrl ?? ''}/${props.videoId}/playlist.m3u8`, 'stream', group);
+			} else if (typeof props.src === 'string') {
+				const src = /^https?:\/\//.test(props.src)
+					? props.src
+					: resolveCdnPath(env, props.src.startsWith('/') ? props.src : `/${props.src}`, (props.pullZone as string | undefined) ?? 'storage');
+				add(src, 'video', group);
+			}
+		}
+	}
+
+	return [...requests.values()];
+}
+
+// Where a URL is measured: the override origin (path and query kept) or the URL itself
+export function requestUrl(url: string, origin: string | undefined, site: URL | undefined): string | undefined {
+	if (origin) {
+		const parsed = new URL(url, 'http://localhost');
+		return new URL(`${parsed.pathname}${parsed.search}`, origin).href;
+	}
+	if (/^https?:\/\//.test(url)) return url;
+	return site ? new URL(url, site).href : undefined;
+}
+
+async function measure(url: string): Promise<number> {
+	const head = await fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(FETCH_TIMEOUT) });
+	if (!head.ok) {
+		throw new Error(`HTTP ${head.status}`);
+	}
+	const length = head.headers.get('content-length');
+	if (length !== null) {
+		return Number(length);
+	}
+
+	// No Content-Length on HEAD (chunked responses): ask for one byte and read the total
+	const probe = await fetch(url, { headers: { Range: 'bytes=0-0' }, signal: AbortSignal.timeout(FETCH_TIMEOUT) });
+	await probe.body?.cancel();
+	const total = probe.headers.get('content-range')?.match(/\/(\d+)$/);
+	if (!total) {
+		throw new Error('no Content-Length or Content-Range');
+	}
+	return Number(total[1]);
+}
+
+/**
+ * Byte size of every URL, measured once each with limited concurrency
+ */
+export async function measureAll(urls: string[]): Promise<{ sizes: Map<string, number>; failures: string[] }> {
+	const sizes = new Map<string, number>();
+	const failures: string[] = [];
+	const queue = [...new Set(urls)];
+	const worker = async (): Promise<void> => {
+		for (let url = queue.shift(); url; url = queue.shift()) {
+			try {
+				sizes.set(url, await measure(url));
+			} catch (error) {
+				failures.push(`${url} (${error instanceof Error ? error.message : String(error)})`);
+			}
+		}
+	};
+	await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+	return { sizes, failures };
+}
+
+/**
+ * Budget of a page: its exact path, else the longest matching prefix pattern
+ */
+export function budgetFor(path: string, budgets: PageWeightConfig['budgets']): PageBudget | undefined {
+	if (budgets[path]) return budgets[path];
+	const pattern = Object.keys(budgets)
+		.filter((key) => key.endsWith('*') && path.startsWith(key.slice(0, -1)))
+		.sort((a, b) => b.length - a.length)[0];
+	return pattern ? budgets[pattern] : undefined;
+}
+
+async function loadConfig(root: URL): Promise<PageWeightConfig> {
+	let config: Partial<PageWeightConfig>;
+	try {
+		config = JSON.parse(await readFile(new URL(PAGE_WEIGHT_CONFIG_FILE, root), 'utf-8'));
+	} catch (error) {
+		throw new Error(`[page-weight] Could not read ${PAGE_WEIGHT_CONFIG_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+	}
+	if (!config.budgets || typeof config.budgets !== 'object') {
+		throw new Error(`[page-weight] ${PAGE_WEIGHT_CONFIG_FILE} needs a "budgets" object`);
+	}
+	return { origin: config.origin, budgets: config.budgets };
+}
+
+function formatBytes(bytes: number): string {
+	if (bytes >= 1000 * 1000) return `${(bytes / 1000 / 1000).toFixed(1)} MB`;
+	return `${Math.round(bytes / 1000)} kB`;
+}
+
+function formatBudget(bytes: number, budgetKb: number | undefined): string {
+	return budgetKb === undefined ? formatBytes(bytes) : `${formatBytes(bytes)} / ${formatBytes(budgetKb * 1000)}`;
+}
+
+/**
+ * Priority and lazy bytes of a page, checked against its budget
+ * Bunny Stream requests are counted, not measured.
+ */
+export function pageReport(
+	path: string,
+	requests: MediaRequest[],
+	sizeOf: (url: string) => number,
+	budget: PageBudget | undefined
+): PageReport {
+	const measured = requests
+		.filter((request) => request.kind !== 'stream')
+		.map((request) => ({ ...request, bytes: sizeOf(request.url) }));
+	const sum = (group: RequestGroup): number =>
+		measured.filter((request) => request.group === group).reduce((total, request) => total + request.bytes, 0);
+	const priorityBytes = sum('priority');
+	const lazyBytes = sum('lazy');
+
+	const overBudget: string[] = [];
+	if (budget?.priorityKb !== undefined && priorityBytes > budget.priorityKb * 1000) {
+		overBudget.push(`priority ${formatBudget(priorityBytes, budget.priorityKb)}`);
+	}
+	if (budget?.totalKb !== undefined && priorityBytes + lazyBytes > budget.totalKb * 1000) {
+		overBudget.push(`total ${formatBudget(priorityBytes + lazyBytes, budget.totalKb)}`);
+	}
+
+	return {
+		path,
+		requests: measured,
+		streams: requests.length - measured.length,
+		priorityBytes,
+		lazyBytes,
+		budget,
+		overBudget,
+	};
+}
+
+function logTable(reports: PageReport[], logger: AstroIntegrationLogger): void {
+	const header = ['page', 'priority', 'lazy', 'total', ''];
+	const rows = reports.map((report) => {
+		const priorityCount = report.requests.filter((request) => request.group === 'priority').length;
+		const lazyCount = report.requests.length - priorityCount;
+		return [
+			report.path,
+			`${priorityCount} · ${formatBudget(report.priorityBytes, report.budget?.priorityKb)}`,
+			`${lazyCount} · ${formatBytes(report.lazyBytes)}`,
+			formatBudget(report.priorityBytes + report.lazyBytes, report.budget?.totalKb),
+			report.overBudget.length > 0 ? 'OVER BUDGET' : report.budget ? 'ok' : 'no budget',
+		];
+	});
+	const widths = header.map((_, column) => Math.max(...[header, ...rows].map((row) => row[column].length)));
+	const line = (row: string[]): string => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+	logger.info(`\n${[line(header), ...rows.map(line)].join('\n')}`);
+}
+
+export default function pageWeight(): AstroIntegration {
+	let config: AstroConfig;
+
+	return {
+		name: 'page-weight',
+		hooks: {
+			'astro:config:done': ({ config: resolvedConfig }) => {
+				config = resolvedConfig;
+			},
+			'astro:build:done': async ({ dir, pages, logger }) => {
+				const env = loadBuildEnv('production', config.root);
+				if (!env.PAGE_WEIGHT) return;
+
+				const { origin: configOrigin, budgets } = await loadConfig(config.root);
+				const origin = env.PAGE_WEIGHT_ORIGIN || configOrigin || undefined;
+				const site = config.site ? new URL(config.site) : undefined;
+
+				const requestsByPage = new Map<string, MediaRequest[]>();
+				for (const { pathname } of pages) {
+					const html = await readFile(pageFile(dir, pathname, config.build.format), 'utf-8');
+					requestsByPage.set(pagePath(pathname, config.build.format), scanMediaRequests(html, env));
+				}
+
+				const measurable = [...requestsByPage.values()].flat().filter((request) => request.kind !== 'stream');
+				const unresolved = measurable.filter((request) => !requestUrl(request.url, origin, site)).map((request) => request.url);
+				const { sizes, failures } = await measureAll(
+					measurable.flatMap((request) => requestUrl(request.url, origin, site) ?? [])
+				);
+				logger.info(`Measured ${sizes.size} media URLs${origin ? ` against ${origin}` : ''}`);
+
+				const sizeOf = (url: string): number => sizes.get(requestUrl(url, origin, site) ?? '') ?? 0;
+				const reports = [...requestsByPage].map(([path, requests]) =>
+					pageReport(path, requests, sizeOf, budgetFor(path, budgets))
+				);
+
+				logTable(reports, logger);
+
+				const streams = reports.reduce((total, report) => total + report.streams, 0);
+				if (streams > 0) {
+					logger.info(`${streams} Bunny Stream video(s) not measured (adaptive HLS)`);
+				}
+
+				const errors = [...unresolved.map((url) => `${url} (relative URL and no origin or site to resolve it)`), ...failures];
+				errors.forEach((error) => logger.error(`Could not measure ${error}`));
+
+				const overBudget = reports.filter((report) => report.overBudget.length > 0);
+				overBudget.forEach((report) => {
+					const heaviest = [...report.requests]
+						.sort((a, b) => b.bytes - a.bytes)
+						.slice(0, HEAVIEST_SHOWN)
+						.map((request) => `\n  - ${formatBytes(request.bytes)} ${request.group} ${request.url}`)
+						.join('');
+					logger.error(`${report.path} is over budget: ${report.overBudget.join(', ')}. Heaviest requests:${heaviest}`);
+				});
+
+				if (overBudget.length > 0 || errors.length > 0) {
+					throw new Error(
+						`[page-weight] ${overBudget.length} page(s) over budget, ${errors.length} request(s) not measured, see the report above`
+					);
+				}
+			},
+		},
+	};
+}
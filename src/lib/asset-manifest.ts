@@ -0,0 +1,41 @@
+/**
+ * Asset manifest: intrinsic size, dominant colour and an inline placeholder per image
+ * Written by `npm run asset-manifest` (src/integrations/asset-manifest.ts) to
+ * ./asset-manifest.json, keyed by pull zone path
+ *
+ * Components use it to reserve the right aspect ratio before the image lands and to
+ * draw the blur placeholder without requesting a bunnyThumbnail. Images missing from
+ * the manifest fall back to the thumbnail request.
+ * Only server code reads the manifest: .astro callers pass getAsset() results to the
+ * LazyImage/LazyVideo islands as props, so a page ships just the entries it renders.
+ */
+
+import manifest from './asset-manifest.json';
+
+export interface AssetEntry {
+	width: number; // Intrinsic size of the original, after EXIF rotation
+	height: number;
+	color: string; // Dominant colour, #rrggbb
+	placeholder: string; // data:image/webp;base64,...
+}
+
+export type AssetManifest = Record<string, AssetEntry>;
+
+const assets: AssetManifest = manifest;
+
+/**
+ * Manifest entry for a pull zone path (e.g. `/wp-content/uploads/...jpg`)
+ */
+export function getAsset(path: string | undefined): AssetEntry | undefined {
+	if (!path) return undefined;
+	const cleanPath = path.startsWith('/') ? path : `/${path}`;
+	return Object.hasOwn(assets, cleanPath) ? assets[cleanPath] : undefined;
+}
+
+/**
+ * CSS `aspect-ratio` value for an image, e.g. `1920 / 1080`
+ */
+export function assetAspectRatio(path: string | undefined): string | undefined {
+	const asset = getAsset(path);
+	return asset ? `${asset.width} / ${asset.height}` : undefined;
+}
@@ -0,0 +1,297 @@
+/**
+ * Section block registry: runtime schemas for section block props
+ * RULE-006: Validate all data that drives a page (Zod, simple schemas only)
+ *
+ * A block is `{ type, props, notes? }` where `type` names a section component,
+ * `props` is validated against that component's schema below and `notes` are
+ * optional speaker notes shown in presenter mode (src/lib/presenter.ts).
+ * The matching components are registered in src/components/DeckRenderer.astro
+ * under the same `BlockType` keys.
+ */
+
+import { z } from 'astro/zod';
+
+// Root-relative pull zone path or absolute URL ending in a known media extension.
+// Catches the common typos: missing leading slash, spaces, missing/misspelled extension.
+const MEDIA_PATH_PATTERN = /^(\/|https?:\/\/)\S+\.(jpe?g|png|webp|avif|gif|svg|mp4|webm|mov|m4v)$/i;
+
+const mediaSrcSchema = z.string().regex(MEDIA_PATH_PATTERN, {
+	message: 'Must be a "/"-prefixed path or http(s) URL ending in an image/video extension',
+});
+
+// WebVTT caption/subtitle/description track, see src/lib/video-tracks.ts
+const videoTrackSchema = z.object({
+	src: z.string().regex(/^(\/|https?:\/\/)\S+\.vtt$/i, { message: 'Must be a "/"-prefixed path or http(s) URL ending in .vtt' }),
+	srclang: z.string().min(2),
+	label: z.string().min(1),
+	kind: z.enum(['captions', 'subtitles', 'descriptions']).optional(),
+	default: z.boolean().optional(),
+	pullZone: z.string().optional(),
+});
+
+const altSchema = z.string().trim().min(1, { message: 'Alt text is required' });
+
+export const imageSchema = z.object({
+	src: mediaSrcSchema,
+	alt: altSchema,
+	label: z.string().optional(),
+	pullZone: z.string().optional(),
+	priority: z.boolean().optional(),
+	width: z.number().positive().optional(),
+	quality: z.number().min(1).max(100).optional(),
+});
+
+export const videoSchema = z.object({
+	src: mediaSrcSchema,
+	poster: mediaSrcSchema.optional(),
+	label: z.string().optional(),
+	pullZone: z.string().optional(),
+	priority: z.boolean().optional(),
+	tracks: z.array(videoTrackSchema).optional(),
+});
+
+const mediaItemSchema = z.union([imageSchema, videoSchema.extend({ type: z.literal('video') })]);
+
+const gridItemSchema = imageSchema.extend({
+	label: z.string(),
+	type: z.enum(['image', 'video']).optional(),
+});
+
+const linkSchema = z.object({
+	href: z.string().min(1),
+	label: z.string().min(1),
+});
+
+// Sections whose layout and copy live in the component itself
+const idOnlySchema = z.object({
+	id: z.string().optional(),
+});
+
+export const blockPropsSchemas = {
+	CaseStudyTitle: z.object({
+		id: z.string(),
+		background: z.object({
+			src: mediaSrcSchema,
+			pullZone: z.string().optional(),
+		}),
+		backgroundPosition: z.string().optional(),
+		overlayImage: z.object({ src: mediaSrcSchema, alt: altSchema }).optional(),
+	}),
+	C4CaseStudy: z.object({
+		id: z.string().optional(),
+		image: imageSchema,
+		challenge: z.string(),
+		whatWeDid: z.string(),
+		keyInitiatives: z.array(z.string()),
+	}),
+	ReelSection: z.object({
+		id: z.string().optional(),
+		video: videoSchema,
+		className: z.string().optional(),
+	}),
+	StackedVideos: z.object({
+		id: z.string().optional(),
+		title: z.string().optional(),
+		videos: z
+			.array(
+				z.object({
+					src: mediaSrcSchema.optional(),
+					videoId: z.string().optional(),
+					poster: mediaSrcSchema.optional(),
+					pullZone: z.string().optional(),
+					priority: z.boolean().optional(),
+					tracks: z.array(videoTrackSchema).optional(),
+				})
+			)
+			.min(1)
+			.max(4),
+	}),
+	TalentBrandPartnership: z.object({
+		id: z.string().optional(),
+		block1: z.object({
+			title: z.string(),
+			twoImages: z.object({ image1: imageSchema, image2: imageSchema }),
+			fullWidthImage: imageSchema,
+		}),
+		block2: z.object({
+			title: z.string(),
+			image: imageSchema,
+		}),
+	}),
+	IgniteYourFireResults: z.object({
+		id: z.string().optional(),
+		phoneImage: imageSchema,
+	}),
+	AdidasManURecapResults: z.object({
+		id: z.string().optional(),
+		phoneImage: imageSchema,
+	}),
+	StatsMediaGrid: z.object({
+		id: z.string().optional(),
+		stats: z.array(z.object({ label: z.string(), value: z.string() })),
+		col1: z.object({
+			title: z.string(),
+			images: z.array(imageSchema).length(2),
+		}),
+		col2: z.object({
+			images: z.array(imageSchema).length(2),
+		}),
+		col3: z.object({ video: videoSchema }),
+	}),
+	ThreeImageGrid: z.object({
+		id: z.string().optional(),
+		images: z.array(gridItemSchema).length(3),
+	}),
+	ThreeImageGridFlipped: z.object({
+		id: z.string().optional(),
+		images: z.array(gridItemSchema).length(3),
+	}),
+	TwoBlockImageGrid: z.object({
+		id: z.string().optional(),
+		block1: z.object({
+			title: z.string().optional(),
+			images: z.array(mediaItemSchema),
+		}),
+		block2: z.object({
+			title: z.string().optional(),
+			images: z.array(mediaItemSchema),
+		}),
+	}),
+	ThreeColumnTwoRowGrid: z.object({
+		id: z.string().optional(),
+		images: z.array(imageSchema).length(6),
+	}),
+	FourColumnGrid: z.object({
+		id: z.string().optional(),
+		images: z.array(imageSchema).length(6),
+	}),
+	TwoBlockImageContent: z.object({
+		id: z.string().optional(),
+		image: imageSchema,
+		stats: z.object({ views: z.string(), likes: z.string() }),
+		videos: z.array(
+			z.object({
+				src: mediaSrcSchema.optional(),
+				videoId: z.string().optional(),
+				handle: z.string(),
+				followers: z.string(),
+				pullZone: z.string().optional(),
+				priority: z.boolean().optional(),
+				tracks: z.array(videoTrackSchema).optional(),
+			})
+		),
+	}),
+	TwoBlockTitledGrid: z.object({
+		id: z.string().optional(),
+		title: z.string(),
+		block1: z.array(imageSchema.extend({ objectPosition: z.string().optional() })).length(3),
+		block2: z.array(imageSchema.extend({ objectPosition: z.string().optional() })).length(2),
+	}),
+	TwoOverThreeGrid: z.object({
+		id: z.string().optional(),
+		images: z.array(imageSchema).length(5),
+	}),
+	SocialImpact: z.object({
+		id: z.string().optional(),
+		images: z.array(imageSchema).min(1).max(6),
+		headline: z.string(),
+		paragraphs: z.array(z.string()).min(1),
+		events: z.array(z.object({ date: z.string(), name: z.string() })).optional(),
+		statsTitle: z.string().optional(),
+		stats: z
+			.array(z.object({ icon: z.string().optional(), value: z.string(), text: z.string() }))
+			.optional(),
+		features: z.array(z.object({ title: z.string(), description: z.string() })).optional(),
+	}),
+	DerrickRoseBrandGrid: idOnlySchema,
+	LogoSection: z.object({
+		id: z.string().optional(),
+		logo: z.object({
+			src: mediaSrcSchema,
+			alt: altSchema,
+			width: z.number().positive(),
+			height: z.number().positive(),
+			pullZone: z.string().optional(),
+		}),
+	}),
+	NavigationLinks: z.object({
+		id: z.string().optional(),
+		links: z.array(linkSchema).min(1),
+	}),
+};
+
+export type BlockType = keyof typeof blockPropsSchemas;
+
+// Speaker notes: plain text, blank lines separate paragraphs
+const notesSchema = z.string().trim().min(1, { message: 'Notes must not be empty (omit the field instead)' });
+
+function blockSchemaFor<T extends BlockType>(type: T) {
+	return z.object({ type: z.literal(type), props: blockPropsSchemas[type], notes: notesSchema.optional() });
+}
+
+/**
+ * Schema for a single `{ type, props, notes? }` block
+ */
+export const deckBlockSchema = z.discriminatedUnion('type', [
+	blockSchemaFor('CaseStudyTitle'),
+	blockSchemaFor('C4CaseStudy'),
+	blockSchemaFor('ReelSection'),
+	blockSchemaFor('StackedVideos'),
+	blockSchemaFor('TalentBrandPartnership'),
+	blockSchemaFor('IgniteYourFireResults'),
+	blockSchemaFor('AdidasManURecapResults'),
+	blockSchemaFor('StatsMediaGrid'),
+	blockSchemaFor('ThreeImageGrid'),
+	blockSchemaFor('ThreeImageGridFlipped'),
+	blockSchemaFor('TwoBlockImageGrid'),
+	blockSchemaFor('ThreeColumnTwoRowGrid'),
+	blockSchemaFor('FourColumnGrid'),
+	blockSchemaFor('TwoBlockImageContent'),
+	blockSchemaFor('TwoBlockTitledGrid'),
+	blockSchemaFor('TwoOverThreeGrid'),
+	blockSchemaFor('SocialImpact'),
+	blockSchemaFor('DerrickRoseBrandGrid'),
+	blockSchemaFor('LogoSection'),
+	blockSchemaFor('NavigationLinks'),
+]);
+
+export type DeckBlock = z.infer<typeof deckBlockSchema>;
+
+function isBlockType(value: unknown): value is BlockType {
+	return typeof value === 'string' && Object.hasOwn(blockPropsSchemas, value);
+}
+
+/**
+ * Validate a list of `{ type, props }` blocks.
+ * Throws one error listing every problem so a bad block fails the build, e.g.
+ * `block 2 (ReelSection) props.video.src: Required`
+ */
+export function validateBlocks(blocks: unknown[]): DeckBlock[] {
+	const problems: string[] = [];
+	const validated: DeckBlock[] = [];
+
+	blocks.forEach((block, index) => {
+		const type = typeof block === 'object' && block !== null ? (block as { type?: unknown }).type : undefined;
+		if (!isBlockType(type)) {
+			problems.push(`block ${index}: unknown block type ${JSON.stringify(type)}`);
+			return;
+		}
+
+		const { props, notes } = block as { props?: unknown; notes?: unknown };
+		const result = deckBlockSchema.safeParse({ type, props: props ?? {}, notes });
+		if (!result.success) {
+			result.error.issues.forEach((issue) => {
+				problems.push(`block ${index} (${type}) ${issue.path.join('.')}: ${issue.message}`);
+			});
+			return;
+		}
+
+		validated.push(result.data);
+	});
+
+	if (problems.length > 0) {
+		throw new Error(`[DeckRenderer] Invalid blocks:\n  - ${problems.join('\n  - ')}`);
+	}
+
+	return validated;
+}
@@ -10,39 +10,19 @@
  * - PUBLIC_BUNNY_CDN_URL_WORDPRESS: WordPress pull zone URL
  * - PUBLIC_BUNNY_CDN_URL_STORAGE: Storage pull zone URL
  * - PUBLIC_BUNNY_CDN_URL: Default fallback (recommended: set to WordPress)
+ *
+ * Pull zones with Token Authentication: sign server-side with ./bunny-token.ts
+ *
+ * URLs come from the active media provider (./media-provider.ts): Bunny in
+ * production, the local media/ folder in dev when no CDN URL is configured.
  */
 
-const getCdnUrl = (pullZone?: string): string => {
-	// If specific pull zone requested, check for named env var
-	if (pullZone) {
-		const envKey = `PUBLIC_BUNNY_CDN_URL_${pullZone.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
-		const url = import.meta.env[envKey];
-		if (url) {
-			return url.replace(/\/$/, ''); // Remove trailing slash
-		}
-		console.warn(`[Bunny CDN] ${envKey} not set, falling back to default`);
-	}
+import { getMediaProvider, type ImageFormat, type MediaImageOptions, type VideoEmbedOptions } from './media-provider';
 
-	// Default pull zone
-	const url = import.meta.env.PUBLIC_BUNNY_CDN_URL;
-	if (!url) {
-		if (typeof window !== 'undefined') {
-			// Client-side: log error to console
-			console.error('[Bunny CDN] PUBLIC_BUNNY_CDN_URL not set. Images will use raw paths. Set environment variables in Vercel.');
-		}
-		return '';
-	}
-	return url.replace(/\/$/, ''); // Remove trailing slash
-};
+export { bunnyImagePath, inferPullZone } from './media-paths';
+export type { ImageFormat };
 
-
-export interface BunnyImageOptions {
-	width?: number;
-	height?: number;
-	quality?: number;
-	aspectRatio?: string;
-	pullZone?: string; // Optional: specify a named pull zone (e.g., "images", "assets")
-}
+export type BunnyImageOptions = MediaImageOptions;
 
 /**
  * Generate Bunny CDN image URL with transform parameters
@@ -55,37 +35,7 @@ export interface BunnyImageOptions {
  * // Uses PUBLIC_BUNNY_CDN_URL_IMAGES if set, otherwise falls back to PUBLIC_BUNNY_CDN_URL
  */
 export function bunnyImage(path: string, options: BunnyImageOptions = {}): string {
-	const { width, height, quality, aspectRatio, pullZone } = options;
-	const cdnUrl = getCdnUrl(pullZone);
-	if (!cdnUrl) {
-		// CDN URL not configured - return raw path (will fail to load unless served from origin)
-		if (typeof window !== 'undefined') {
-			console.warn(`[Bunny CDN] CDN URL not configured for pullZone "${pullZone || 'default'}". Image will use raw path: ${path}`);
-		}
-		return path;
-	}
-
-	// Validate inputs
-	if (width !== undefined && (typeof width !== 'number' || width <= 0)) {
-		throw new Error('Width must be a positive number');
-	}
-	if (height !== undefined && (typeof height !== 'number' || height <= 0)) {
-		throw new Error('Height must be a positive number');
-	}
-	if (quality !== undefined && (quality < 1 || quality > 100)) {
-		throw new Error('Quality must be between 1 and 100');
-	}
-
-	const params = new URLSearchParams();
-	if (width) params.set('width', width.toString());
-	if (height) params.set('height', height.toString());
-	if (quality) params.set('quality', quality.toString());
-	if (aspectRatio) params.set('aspect_ratio', aspectRatio);
-
-	const queryString = params.toString();
-	const cleanPath = path.startsWith('/') ? path : `/${path}`;
-
-	return queryString ? `${cdnUrl}${cleanPath}?${queryString}` : `${cdnUrl}${cleanPath}`;
+	return getMediaProvider().image(path, options);
 }
 
 /**
@@ -95,42 +45,15 @@ export function bunnyImage(path: string, options: BunnyImageOptions = {}): strin
  * @param videoId - Bunny Stream Video ID
  */
 export function bunnyVideoUrl(videoId: string): string {
-	const streamUrl = import.meta.env.PUBLIC_BUNNY_STREAM_URL;
-	if (!streamUrl) {
-		console.warn('[Bunny CDN] PUBLIC_BUNNY_STREAM_URL not set');
-		return '';
-	}
-	const cleanUrl = streamUrl.replace(/\/$/, '');
-	return `${cleanUrl}/${videoId}/playlist.m3u8`;
+	return getMediaProvider().videoStream(videoId);
 }
 
 /**
  * Generate Bunny Stream embed URL
  * RULE-016: Use Bunny Stream for adaptive video delivery
  */
-export function bunnyVideoEmbed(videoId: string, options: { autoplay?: boolean; loop?: boolean } = {}): string {
-	const streamUrl = import.meta.env.PUBLIC_BUNNY_STREAM_URL;
-	if (!streamUrl) {
-		console.warn('[Bunny CDN] PUBLIC_BUNNY_STREAM_URL not set');
-		return '';
-	}
-	
-	// Extract Library ID from vz-xxxxx.b-cdn.net
-	const libraryMatch = streamUrl.match(/vz-([a-zA-Z0-9-]+)\./);
-	const libraryId = libraryMatch ? libraryMatch[1] : '';
-	
-	if (!libraryId) {
-		console.warn('[Bunny CDN] Could not extract Library ID from PUBLIC_BUNNY_STREAM_URL');
-		return '';
-	}
-
-	const params = new URLSearchParams({
-		autoplay: options.autoplay ? '1' : '0',
-		loop: options.loop ? '1' : '0',
-		preload: '0',
-	});
-	
-	return `https://iframe.mediadelivery.net/embed/${libraryId}/${videoId}?${params.toString()}`;
+export function bunnyVideoEmbed(videoId: string, options: VideoEmbedOptions = {}): string {
+	return getMediaProvider().videoEmbed(videoId, options);
 }
 
 /**
@@ -140,27 +63,35 @@ export function bunnyVideoEmbed(videoId: string, options: { autoplay?: boolean;
  * @param videoId - Bunny Stream Video ID
  */
 export function bunnyVideoPoster(videoId: string): string {
-	const streamUrl = import.meta.env.PUBLIC_BUNNY_STREAM_URL;
-	if (!streamUrl) {
-		console.warn('[Bunny CDN] PUBLIC_BUNNY_STREAM_URL not set');
-		return '';
-	}
-	const cleanUrl = streamUrl.replace(/\/$/, '');
-	return `${cleanUrl}/${videoId}/thumbnail.jpg`;
+	return getMediaProvider().videoPoster(videoId);
+}
+
+/**
+ * Generate Bunny Stream WebVTT captions URL for one language
+ *
+ * @param videoId - Bunny Stream Video ID
+ * @param srclang - Caption language code as uploaded to the library (e.g. 'en')
+ */
+export function bunnyVideoCaptions(videoId: string, srclang: string): string {
+	return getMediaProvider().videoCaptions(videoId, srclang);
 }
 
 /**
  * Generate srcset for responsive images
  * RULE-015: Use Transform API for responsive sizes
+ * A fixed `height` is taken as the height at the largest width and scaled
+ * with each entry so every candidate keeps the same aspect ratio.
  */
 export function bunnyImageSrcset(
 	path: string,
 	widths: number[],
 	options: Omit<BunnyImageOptions, 'width'> = {}
 ): string {
+	const largestWidth = Math.max(...widths);
 	const srcset = widths
 		.map((width) => {
-			const url = bunnyImage(path, { ...options, width });
+			const height = options.height ? Math.round((options.height * width) / largestWidth) : undefined;
+			const url = bunnyImage(path, { ...options, width, height });
 			return `${url} ${width}w`;
 		})
 		.join(', ');
@@ -192,13 +123,5 @@ export function bunnyThumbnail(path: string, width: number = 50, pullZone?: stri
  * bunnyVideoFile('/videos/hero-background.mp4', 'storage')
  */
 export function bunnyVideoFile(path: string, pullZone: string = 'storage'): string {
-	const cdnUrl = getCdnUrl(pullZone);
-	if (!cdnUrl) {
-		console.warn(`Pull zone "${pullZone}" not configured, returning path as-is`);
-		return path;
-	}
-
-	const cleanPath = path.startsWith('/') ? path : `/${path}`;
-	return `${cdnUrl}${cleanPath}`;
+	return getMediaProvider().videoFile(path, pullZone);
 }
-
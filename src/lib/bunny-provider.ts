@@ -0,0 +1,88 @@
+/**
+ * Bunny CDN media provider
+ * RULE-017: Standardized CDN URL structure with typed utilities
+ *
+ * Pull zone and Stream URLs come from the validated env in ./cdn-config.ts
+ */
+
+import { pullZoneEnvKey, requirePullZoneUrl, requireStreamConfig, type StreamConfig } from './cdn-config';
+import type { MediaImageOptions, MediaProvider, VideoEmbedOptions } from './media-provider';
+import { bunnyImagePath } from './media-paths';
+
+const getCdnUrl = (pullZone?: string): string => {
+	const url = requirePullZoneUrl(pullZone);
+	if (url) return url;
+
+	if (typeof window !== 'undefined') {
+		// Client-side: log error to console
+		console.error(`[Bunny CDN] ${pullZone ? pullZoneEnvKey(pullZone) : 'PUBLIC_BUNNY_CDN_URL'} not set. Images will use raw paths. Set environment variables in Vercel.`);
+	}
+	return '';
+};
+
+const getStream = (): StreamConfig | undefined => {
+	const stream = requireStreamConfig();
+	if (!stream) {
+		console.warn('[Bunny CDN] PUBLIC_BUNNY_STREAM_URL not set');
+	}
+	return stream;
+};
+
+export const bunnyProvider: MediaProvider = {
+	name: 'bunny',
+
+	image(path: string, options: MediaImageOptions): string {
+		const cdnUrl = getCdnUrl(options.pullZone);
+		if (!cdnUrl) {
+			// CDN URL not configured - return raw path (will fail to load unless served from origin)
+			if (typeof window !== 'undefined') {
+				console.warn(`[Bunny CDN] CDN URL not configured for pullZone "${options.pullZone || 'default'}". Image will use raw path: ${path}`);
+			}
+			return path;
+		}
+
+		return `${cdnUrl}${bunnyImagePath(path, options)}`;
+	},
+
+	videoFile(path: string, pullZone: string): string {
+		const cdnUrl = getCdnUrl(pullZone);
+		if (!cdnUrl) {
+			console.warn(`Pull zone "${pullZone}" not configured, returning path as-is`);
+			return path;
+		}
+
+		const cleanPath = path.startsWith('/') ? path : `/${path}`;
+		return `${cdnUrl}${cleanPath}`;
+	},
+
+	// RULE-016: Use Bunny Stream for adaptive video delivery
+	videoStream(videoId: string): string {
+		const stream = getStream();
+		return stream ? `${stream.url}/${videoId}/playlist.m3u8` : '';
+	},
+
+	// RULE-014: Videos must have WebP posters via Bunny CDN
+	videoPoster(videoId: string): string {
+		const stream = getStream();
+		return stream ? `${stream.url}/${videoId}/thumbnail.jpg` : '';
+	},
+
+	videoCaptions(videoId: string, srclang: string): string {
+		const stream = getStream();
+		return stream ? `${stream.url}/${videoId}/captions/${srclang}.vtt` : '';
+	},
+
+	videoEmbed(videoId: string, options: VideoEmbedOptions): string {
+		// Library id is checked when the config loads
+		const stream = getStream();
+		if (!stream) return '';
+
+		const params = new URLSearchParams({
+			autoplay: options.autoplay ? '1' : '0',
+			loop: options.loop ? '1' : '0',
+			preload: '0',
+		});
+
+		return `https://iframe.mediadelivery.net/embed/${stream.libraryId}/${videoId}?${params.toString()}`;
+	},
+};
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { signBunnyUrl } from './bunny-token';
+
+const KEY = 'test-security-key';
+const EXPIRES = 1700000000;
+
+// Expected URLs are literal output of Bunny's reference Node.js signer (BunnyCDN.TokenAuthentication)
+// for the same key, URL and options, so the tests don't share the implementation's formula
+
+describe('signBunnyUrl', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('signs the path and expiry', () => {
+		expect(signBunnyUrl('https://cdn.example.com/videos/clip.mp4', KEY, { expires: EXPIRES })).toBe(
+			'https://cdn.example.com/videos/clip.mp4?token=-0Wrpek5M6u2QecrrUq8fw_HnNv_x5drg8Ipk9lgjgQ&expires=1700000000'
+		);
+	});
+
+	it('signs query parameters sorted by name', () => {
+		expect(signBunnyUrl('https://cdn.example.com/hero.jpg?width=1920&quality=85', KEY, { expires: EXPIRES })).toBe(
+			'https://cdn.example.com/hero.jpg?token=ApExDBUZyxXSYqe3NhCyzqhuu6_k1VfzmroJDSPl7Vs&quality=85&width=1920&expires=1700000000'
+		);
+	});
+
+	it('signs extra parameters raw, sends them encoded and drops empty ones', () => {
+		expect(signBunnyUrl('https://cdn.example.com/hero.jpg?width=800&aspect_ratio=16:9&crop=', KEY, { expires: EXPIRES })).toBe(
+			'https://cdn.example.com/hero.jpg?token=6wnHFYlr4peq9bh9B_1zjZcRLeF-EjeTIBRT9SBCZRA&aspect_ratio=16%3A9&width=800&expires=1700000000'
+		);
+	});
+
+	it('signs the decoded path', () => {
+		expect(signBunnyUrl('https://cdn.example.com/uploads/case%20study.jpg', KEY, { expires: EXPIRES })).toBe(
+			'https://cdn.example.com/uploads/case%20study.jpg?token=6mLFnuYmoGAxxYMhKlvaM2iX6G1EhsVzKxkrdxIhHd8&expires=1700000000'
+		);
+	});
+
+	it('signs a path prefix as token_path', () => {
+		expect(signBunnyUrl('https://cdn.example.com/nda/acme/still.jpg', KEY, { expires: EXPIRES, pathPrefix: '/nda/acme/' })).toBe(
+			'https://cdn.example.com/nda/acme/still.jpg?token=tH0tKzsnLQEW_-FXgQEYNhZt6mRpQImMS2x_Uz8B_c4&token_path=%2Fnda%2Facme%2F&expires=1700000000'
+		);
+	});
+
+	it('puts a directory token in the path, before the file', () => {
+		expect(signBunnyUrl('https://vz-12345678-abc.b-cdn.net/video-id/playlist.m3u8', KEY, {
+			expires: EXPIRES,
+			pathPrefix: '/video-id/',
+			directory: true,
+		})).toBe(
+			'https://vz-12345678-abc.b-cdn.net/bcdn_token=pE4tkmjCRu0h4xkDOaVEz0joreZD01NpkhAeW4y3bTs&token_path=%2Fvideo-id%2F&expires=1700000000/video-id/playlist.m3u8'
+		);
+	});
+
+	it('binds the token to an IP without adding it to the URL', () => {
+		expect(signBunnyUrl('https://cdn.example.com/videos/clip.mp4', KEY, { expires: EXPIRES, ip: '203.0.113.7' })).toBe(
+			'https://cdn.example.com/videos/clip.mp4?token=6a7ps92M5euQhhDfBFDoHXJMqzFPPZk42qxsHSkVLxk&expires=1700000000'
+		);
+	});
+
+	it('binds IP and parameters in documented order', () => {
+		expect(signBunnyUrl('https://cdn.example.com/nda/still.jpg?width=640', KEY, {
+			expires: EXPIRES,
+			ip: '203.0.113.7',
+			pathPrefix: '/nda/',
+		})).toBe(
+			'https://cdn.example.com/nda/still.jpg?token=tLyS7G_YxRWOL0FuNmHy-d8K_GhBrqRvZ_FT48SrluU&token_path=%2Fnda%2F&width=640&expires=1700000000'
+		);
+	});
+
+	it('expires expiresIn seconds from now', () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(EXPIRES * 1000);
+		expect(signBunnyUrl('https://cdn.example.com/videos/clip.mp4', KEY, { expiresIn: 60 })).toBe(
+			'https://cdn.example.com/videos/clip.mp4?token=q9h4Y3-U13dJsJLjqQrz-MDqaNwBdVgs7Yl1MjCx8O4&expires=1700000060'
+		);
+	});
+
+	it('rejects an empty key or an invalid expiry', () => {
+		expect(() => signBunnyUrl('https://cdn.example.com/a.jpg', '')).toThrow('Security key must not be empty');
+		expect(() => signBunnyUrl('https://cdn.example.com/a.jpg', KEY, { expires: 1.5 })).toThrow('positive Unix timestamp');
+	});
+});
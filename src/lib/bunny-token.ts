@@ -0,0 +1,131 @@
+/**
+ * Bunny CDN token authentication (server-only)
+ * RULE-017: Signed variants of the bunny-cdn.ts URL helpers
+ *
+ * Pull zones with Token Authentication enabled only serve URLs signed with the
+ * zone's security key, e.g. client work under NDA before launch. Sign in Astro
+ * frontmatter (build time) or in an endpoint (per visitor, needed for IP binding),
+ * then pass the finished URL to the page. Never sign in the browser: keys are read
+ * with `getSecret` from astro:env/server, which Astro refuses to bundle for the
+ * client, and this module throws if it is ever loaded there anyway.
+ *
+ * Environment variables (one per protected pull zone, same names as bunny-cdn.ts):
+ * - BUNNY_TOKEN_KEY_WORDPRESS, BUNNY_TOKEN_KEY_STORAGE: pull zone security keys
+ * - BUNNY_TOKEN_KEY_STREAM: security key of the Bunny Stream library's pull zone
+ * - BUNNY_TOKEN_KEY: key for URLs built without a pull zone (PUBLIC_BUNNY_CDN_URL)
+ * Zones without a key keep returning public URLs, so signing is opt-in per zone.
+ *
+ * @example
+ * ---
+ * // Build-time signing: the expiry has to outlive the deploy
+ * const still = signedBunnyImage('/nda/acme/still.jpg', { pullZone: 'storage', width: 1920 }, {
+ *   expiresIn: 60 * 60 * 24 * 30,
+ *   pathPrefix: '/nda/acme/',
+ * });
+ * ---
+ * <img src={still} alt="" />
+ */
+
+import { createHash } from 'node:crypto';
+import { getSecret } from 'astro:env/server';
+import { bunnyImage, bunnyVideoFile, bunnyVideoUrl, type BunnyImageOptions } from './bunny-cdn';
+
+if (typeof window !== 'undefined') {
+	throw new Error('[Bunny CDN] bunny-token.ts is server-only, signing keys must never reach the browser');
+}
+
+export interface BunnyTokenOptions {
+	expiresIn?: number; // Seconds from now (default: 1 hour)
+	expires?: number; // Absolute Unix timestamp in seconds, overrides expiresIn
+	pathPrefix?: string; // Signs a prefix instead of the exact path, e.g. '/nda/acme/' covers every file below it
+	ip?: string; // Only valid for requests from this IP
+	directory?: boolean; // Token as a path segment (/bcdn_token=.../file) so relative URLs below it stay signed
+}
+
+const DEFAULT_EXPIRES_IN = 3600;
+
+/**
+ * Sign an absolute pull zone URL with Bunny's SHA256 token authentication
+ * Query parameters (e.g. Optimizer width/quality) are part of the signature.
+ *
+ * @param url - Absolute CDN URL
+ * @param securityKey - Pull zone Token Authentication key
+ */
+export function signBunnyUrl(url: string, securityKey: string, options: BunnyTokenOptions = {}): string {
+	const { expiresIn = DEFAULT_EXPIRES_IN, pathPrefix, ip, directory = false } = options;
+	if (!securityKey) {
+		throw new Error('Security key must not be empty');
+	}
+	const expires = options.expires ?? Math.floor(Date.now() / 1000) + expiresIn;
+	if (!Number.isInteger(expires) || expires <= 0) {
+		throw new Error('Expiry must be a positive Unix timestamp in seconds');
+	}
+
+	const parsed = new URL(url);
+	const parameters = new URLSearchParams(parsed.search);
+	if (pathPrefix) {
+		parameters.set('token_path', pathPrefix);
+	}
+	parameters.sort();
+
+	// Signed with raw values, sent URL-encoded; empty values are neither
+	const signedParameters: string[] = [];
+	const urlParameters: string[] = [];
+	parameters.forEach((value, key) => {
+		if (!value) return;
+		signedParameters.push(`${key}=${value}`);
+		urlParameters.push(`&${key}=${encodeURIComponent(value)}`);
+	});
+
+	const signaturePath = pathPrefix ?? decodeURIComponent(parsed.pathname);
+	const hashableBase = `${securityKey}${signaturePath}${expires}${ip ?? ''}${signedParameters.join('&')}`;
+	const token = createHash('sha256')
+		.update(hashableBase)
+		.digest('base64')
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=/g, '');
+
+	const query = `${urlParameters.join('')}&expires=${expires}`;
+	return directory
+		? `${parsed.origin}/bcdn_token=${token}${query}${parsed.pathname}`
+		: `${parsed.origin}${parsed.pathname}?token=${token}${query}`;
+}
+
+/**
+ * Token Authentication key for a pull zone, undefined when the zone is public
+ */
+export function bunnyTokenKey(pullZone?: string): string | undefined {
+	const envKey = pullZone ? `BUNNY_TOKEN_KEY_${pullZone.toUpperCase().replace(/[^A-Z0-9]/g, '_')}` : 'BUNNY_TOKEN_KEY';
+	return getSecret(envKey) || undefined;
+}
+
+// Unconfigured CDN URLs are raw paths (see bunny-cdn.ts) and public zones need no token
+function signIfProtected(url: string, pullZone: string | undefined, options: BunnyTokenOptions): string {
+	const key = bunnyTokenKey(pullZone);
+	if (!key || !/^https?:\/\//.test(url)) return url;
+	return signBunnyUrl(url, key, options);
+}
+
+/**
+ * bunnyImage, signed when the pull zone has a token key
+ */
+export function signedBunnyImage(path: string, options: BunnyImageOptions = {}, token: BunnyTokenOptions = {}): string {
+	return signIfProtected(bunnyImage(path, options), options.pullZone, token);
+}
+
+/**
+ * bunnyVideoFile, signed when the pull zone has a token key
+ */
+export function signedBunnyVideoFile(path: string, pullZone: string = 'storage', token: BunnyTokenOptions = {}): string {
+	return signIfProtected(bunnyVideoFile(path, pullZone), pullZone, token);
+}
+
+/**
+ * bunnyVideoUrl (HLS playlist), signed when BUNNY_TOKEN_KEY_STREAM is set
+ * The player fetches renditions and segments relative to the playlist, so the
+ * token covers the whole video directory and travels in the path.
+ */
+export function signedBunnyVideoUrl(videoId: string, token: Omit<BunnyTokenOptions, 'pathPrefix' | 'directory'> = {}): string {
+	return signIfProtected(bunnyVideoUrl(videoId), 'stream', { ...token, pathPrefix: `/${videoId}/`, directory: true });
+}
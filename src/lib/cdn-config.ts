@@ -0,0 +1,113 @@
+/**
+ * Bunny CDN configuration
+ * Typed view of the media env vars declared with envField in astro.config.mjs.
+ * Astro validates their format when dev or build starts; this module adds the
+ * checks envField can't express, once, when it is first imported:
+ * - PUBLIC_BUNNY_STREAM_URL must contain the Stream library id (vz-<id>.b-cdn.net)
+ * - a pull zone a page uses must resolve to a URL; production builds fail on the
+ *   page that uses it (see requirePullZoneUrl) instead of shipping raw paths
+ *
+ * Pull zones beyond wordpress/storage still work through PUBLIC_BUNNY_CDN_URL_<ZONE>
+ * (read from import.meta.env, so they are not format-checked).
+ * Build integrations can't load astro:env; they use ./media-paths.ts instead.
+ */
+
+import {
+	PUBLIC_BUNNY_CDN_URL,
+	PUBLIC_BUNNY_CDN_URL_STORAGE,
+	PUBLIC_BUNNY_CDN_URL_WORDPRESS,
+	PUBLIC_BUNNY_STREAM_URL,
+} from 'astro:env/client';
+
+export interface StreamConfig {
+	url: string; // Without trailing slash
+	libraryId: string;
+}
+
+export interface CdnConfig {
+	defaultUrl: string | undefined; // PUBLIC_BUNNY_CDN_URL, used by zones without their own URL
+	pullZones: Record<string, string>; // Zone name (lowercase) -> URL without trailing slash
+	stream: StreamConfig | undefined;
+}
+
+const ZONE_ENV_PREFIX = 'PUBLIC_BUNNY_CDN_URL_';
+// vz-xxxxx.b-cdn.net -> library id, needed for player embeds
+const STREAM_LIBRARY_PATTERN = /vz-([a-zA-Z0-9-]+)\./;
+
+const trimUrl = (url: string): string => url.replace(/\/$/, '');
+
+export function pullZoneEnvKey(pullZone: string): string {
+	return `${ZONE_ENV_PREFIX}${pullZone.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+}
+
+function parseStream(url: string | undefined): StreamConfig | undefined {
+	if (!url) return undefined;
+	const libraryMatch = url.match(STREAM_LIBRARY_PATTERN);
+	if (!libraryMatch) {
+		throw new Error(
+			`[Bunny CDN] PUBLIC_BUNNY_STREAM_URL "${url}" has no library id. ` +
+				'Use the Stream library CDN hostname from the Bunny dashboard, e.g. https://vz-12345678-abc.b-cdn.net'
+		);
+	}
+	return { url: trimUrl(url), libraryId: libraryMatch[1] };
+}
+
+function loadCdnConfig(): CdnConfig {
+	const pullZones: Record<string, string> = {};
+	// Undeclared zones, e.g. PUBLIC_BUNNY_CDN_URL_IMAGES
+	for (const [key, value] of Object.entries(import.meta.env)) {
+		if (key.startsWith(ZONE_ENV_PREFIX) && typeof value === 'string' && value) {
+			pullZones[key.slice(ZONE_ENV_PREFIX.length).toLowerCase()] = trimUrl(value);
+		}
+	}
+	if (PUBLIC_BUNNY_CDN_URL_WORDPRESS) pullZones.wordpress = trimUrl(PUBLIC_BUNNY_CDN_URL_WORDPRESS);
+	if (PUBLIC_BUNNY_CDN_URL_STORAGE) pullZones.storage = trimUrl(PUBLIC_BUNNY_CDN_URL_STORAGE);
+
+	return {
+		defaultUrl: PUBLIC_BUNNY_CDN_URL ? trimUrl(PUBLIC_BUNNY_CDN_URL) : undefined,
+		pullZones,
+		stream: parseStream(PUBLIC_BUNNY_STREAM_URL),
+	};
+}
+
+export const cdnConfig: CdnConfig = loadCdnConfig();
+
+/**
+ * Whether any pull zone URL is configured (the default counts)
+ */
+export function hasCdnConfig(): boolean {
+	return !!cdnConfig.defaultUrl || Object.keys(cdnConfig.pullZones).length > 0;
+}
+
+/**
+ * URL for a pull zone: its own PUBLIC_BUNNY_CDN_URL_<ZONE>, else PUBLIC_BUNNY_CDN_URL
+ */
+export function pullZoneUrl(pullZone?: string): string | undefined {
+	return (pullZone ? cdnConfig.pullZones[pullZone.toLowerCase()] : undefined) ?? cdnConfig.defaultUrl;
+}
+
+// Static builds render every page here, so a throw fails the build on the page that uses the zone
+const isProductionBuild = (): boolean => import.meta.env.PROD && import.meta.env.SSR;
+
+/**
+ * pullZoneUrl, but a production build fails when the zone resolves to nothing
+ * (the page would ship raw paths); elsewhere undefined is returned for the caller to warn
+ */
+export function requirePullZoneUrl(pullZone?: string): string | undefined {
+	const url = pullZoneUrl(pullZone);
+	if (!url && isProductionBuild()) {
+		const envKeys = pullZone ? `${pullZoneEnvKey(pullZone)} or PUBLIC_BUNNY_CDN_URL` : 'PUBLIC_BUNNY_CDN_URL';
+		throw new Error(`[Bunny CDN] Pull zone "${pullZone ?? 'default'}" is used but not configured. Set ${envKeys} (see ENV_SETUP.md)`);
+	}
+	return url;
+}
+
+/**
+ * Stream config, failing a production build when a page uses Bunny Stream without it
+ */
+export function requireStreamConfig(): StreamConfig | undefined {
+	if (!cdnConfig.stream && isProductionBuild()) {
+		throw new Error('[Bunny CDN] Bunny Stream is used but PUBLIC_BUNNY_STREAM_URL is not set (see ENV_SETUP.md)');
+	}
+	return cdnConfig.stream;
+}
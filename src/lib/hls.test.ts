@@ -0,0 +1,134 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { attachHls, isHlsUrl } from './hls';
+import { localMediaProvider } from './local-media-provider';
+
+// Stand-in for hls.js: records what attachHls configures and lets tests emit errors
+const engine = vi.hoisted(() => {
+	type Handler = (event: string, data: { fatal: boolean; type: string; details: string }) => void;
+
+	class FakeHls {
+		static isSupported = vi.fn(() => true);
+		static Events = { ERROR: 'hlsError' };
+		static ErrorTypes = { NETWORK_ERROR: 'networkError', MEDIA_ERROR: 'mediaError' };
+		static instances: FakeHls[] = [];
+
+		handlers = new Map<string, Handler>();
+		on = vi.fn((event: string, handler: Handler) => this.handlers.set(event, handler));
+		loadSource = vi.fn();
+		attachMedia = vi.fn();
+		startLoad = vi.fn();
+		recoverMediaError = vi.fn();
+		destroy = vi.fn();
+
+		constructor(public config: Record<string, unknown>) {
+			FakeHls.instances.push(this);
+		}
+
+		fail(type: string): void {
+			this.handlers.get(FakeHls.Events.ERROR)?.(FakeHls.Events.ERROR, { fatal: true, type, details: 'test' });
+		}
+	}
+
+	return FakeHls;
+});
+
+vi.mock('hls.js/light', () => ({ default: engine }));
+
+const FIXTURE_DIR = join(dirname(fileURLToPath(import.meta.url)), '../../media/stream/fixture');
+const PLAYLIST = localMediaProvider.videoStream('fixture'); // What <LazyVideo videoId="fixture" /> plays offline
+
+function fakeVideo(nativeHls: boolean) {
+	return {
+		src: '',
+		canPlayType: vi.fn((type: string) => (nativeHls && type === 'application/vnd.apple.mpegurl' ? 'maybe' : '')),
+		removeAttribute: vi.fn(),
+		load: vi.fn(),
+	};
+}
+
+const attach = (video: ReturnType<typeof fakeVideo>, startPosition?: number) =>
+	attachHls(video as unknown as HTMLVideoElement, PLAYLIST, { startPosition });
+
+afterEach(() => {
+	engine.instances = [];
+	engine.isSupported.mockReturnValue(true);
+	vi.restoreAllMocks();
+});
+
+describe('attachHls', () => {
+	it('plays natively where the browser supports HLS, without hls.js', async () => {
+		const video = fakeVideo(true);
+		const session = await attach(video);
+
+		expect(video.src).toBe(PLAYLIST);
+		expect(engine.instances).toHaveLength(0);
+
+		session.destroy();
+		expect(video.removeAttribute).toHaveBeenCalledWith('src');
+		expect(video.load).toHaveBeenCalled();
+	});
+
+	it('falls back to hls.js, capped to the player size', async () => {
+		const video = fakeVideo(false);
+		const session = await attach(video);
+
+		expect(video.src).toBe('');
+		const [hls] = engine.instances;
+		expect(hls.config).toEqual({ capLevelToPlayerSize: true, startPosition: -1 });
+		expect(hls.loadSource).toHaveBeenCalledWith(PLAYLIST);
+		expect(hls.attachMedia).toHaveBeenCalledWith(video);
+
+		session.destroy();
+		expect(hls.destroy).toHaveBeenCalled();
+	});
+
+	it('starts hls.js at the resume point', async () => {
+		await attach(fakeVideo(false), 12.5);
+		expect(engine.instances[0].config.startPosition).toBe(12.5);
+	});
+
+	it('throws without native HLS or Media Source Extensions', async () => {
+		engine.isSupported.mockReturnValue(false);
+		await expect(attach(fakeVideo(false))).rejects.toThrow(`[HLS] This browser can't play ${PLAYLIST}`);
+		expect(engine.instances).toHaveLength(0);
+	});
+
+	it('recovers from one fatal error of each kind, then gives up', async () => {
+		const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+		await attach(fakeVideo(false));
+		const [hls] = engine.instances;
+
+		hls.fail('networkError');
+		hls.fail('mediaError');
+		expect(hls.startLoad).toHaveBeenCalledTimes(1);
+		expect(hls.recoverMediaError).toHaveBeenCalledTimes(1);
+		expect(hls.destroy).not.toHaveBeenCalled();
+
+		hls.fail('networkError');
+		expect(hls.destroy).toHaveBeenCalled();
+		expect(consoleError).toHaveBeenCalledWith('[HLS] Playback failed:', { src: PLAYLIST, type: 'networkError', details: 'test' });
+	});
+});
+
+describe('fixture stream (media/stream/fixture)', () => {
+	// URIs of a playlist, resolved against its directory
+	const entries = (playlist: string): string[] =>
+		readFileSync(join(FIXTURE_DIR, playlist), 'utf-8')
+			.split('\n')
+			.filter((line) => line && !line.startsWith('#'))
+			.map((uri) => join(dirname(playlist), uri));
+
+	it('is a Bunny-style master playlist whose renditions and segments all exist', () => {
+		expect(isHlsUrl(PLAYLIST)).toBe(true);
+		const renditions = entries('playlist.m3u8');
+		expect(renditions).toEqual(['90p/video.m3u8']);
+
+		const segments = renditions.flatMap(entries);
+		expect(segments.length).toBeGreaterThan(0);
+		segments.forEach((segment) => expect(existsSync(join(FIXTURE_DIR, segment)), segment).toBe(true));
+		expect(existsSync(join(FIXTURE_DIR, 'thumbnail.jpg'))).toBe(true);
+	});
+});
@@ -0,0 +1,86 @@
+/**
+ * HLS playback for Bunny Stream playlists (playlist.m3u8)
+ * RULE-016: Use Bunny Stream for adaptive video delivery
+ *
+ * Safari and iOS play HLS natively; other browsers need Media Source Extensions
+ * via hls.js. The engine is imported on first use, so pages without Stream
+ * videos (and browsers with native support) never download it.
+ * The light build is enough: captions are sideloaded as <track> elements.
+ */
+
+import type Hls from 'hls.js/light';
+
+export interface HlsOptions {
+	startPosition?: number; // Seconds; resume point so the first segment fetched is the right one
+}
+
+export interface HlsSession {
+	destroy(): void;
+}
+
+let hlsModule: Promise<typeof Hls> | null = null;
+
+const loadHls = (): Promise<typeof Hls> => {
+	hlsModule ??= import('hls.js/light').then((module) => module.default);
+	return hlsModule;
+};
+
+export function isHlsUrl(url: string | undefined): boolean {
+	return !!url && /\.m3u8(?:[?#]|$)/i.test(url);
+}
+
+export function supportsNativeHls(video: HTMLVideoElement): boolean {
+	return video.canPlayType('application/vnd.apple.mpegurl') !== '';
+}
+
+/**
+ * Play an HLS playlist in a <video>: natively where supported, otherwise through hls.js
+ * Renditions are capped to the element's rendered size, so a thumbnail-sized
+ * video never pulls the 1080p stream. Destroy the session before the element goes away.
+ */
+export async function attachHls(video: HTMLVideoElement, url: string, options: HlsOptions = {}): Promise<HlsSession> {
+	const { startPosition = 0 } = options;
+
+	if (supportsNativeHls(video)) {
+		// The caller restores the position once data has loaded
+		video.src = url;
+		return {
+			destroy: () => {
+				video.removeAttribute('src');
+				video.load();
+			},
+		};
+	}
+
+	const HlsEngine = await loadHls();
+	if (!HlsEngine.isSupported()) {
+		throw new Error(`[HLS] This browser can't play ${url} (no native HLS or Media Source Extensions)`);
+	}
+
+	const hls = new HlsEngine({
+		capLevelToPlayerSize: true,
+		startPosition: startPosition > 0 ? startPosition : -1,
+	});
+
+	// Retry recoverable failures once per kind, give up on the rest
+	let recoveredNetwork = false;
+	let recoveredMedia = false;
+	hls.on(HlsEngine.Events.ERROR, (_event, data) => {
+		if (!data.fatal) return;
+		if (data.type === HlsEngine.ErrorTypes.NETWORK_ERROR && !recoveredNetwork) {
+			recoveredNetwork = true;
+			hls.startLoad();
+		} else if (data.type === HlsEngine.ErrorTypes.MEDIA_ERROR && !recoveredMedia) {
+			recoveredMedia = true;
+			hls.recoverMediaError();
+		} else {
+			console.error('[HLS] Playback failed:', { src: url, type: data.type, details: data.details });
+			hls.destroy();
+		}
+	});
+
+	hls.loadSource(url);
+	hls.attachMedia(video);
+
+	return { destroy: () => hls.destroy() };
+}
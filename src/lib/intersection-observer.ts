@@ -1,68 +1,204 @@
 /**
  * Singleton Intersection Observer manager for progressive asset loading
  * RULE-018: Use single Intersection Observer instance (singleton pattern)
+ * One shared observer per distinct rootMargin/threshold, created on first use,
+ * so every caller asking for the same options shares an instance.
+ *
+ * Two purposes with their own defaults:
+ * - 'load': load ahead, fires while the element is still a little off screen
+ * - 'playback': the element is actually visible enough to play
+ * Elements observed with a preload target also load ahead of time when their
+ * snap section is predicted to come up next (./section-preloader.ts)
  */
 
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { sectionPreloader, type PreloadTarget } from './section-preloader';
+
 type IntersectionCallback = (entry: IntersectionObserverEntry) => void;
 
-interface ObserverEntry {
-	element: Element;
+export type ObservePurpose = 'load' | 'playback';
+
+export interface ObserveOptions {
+	purpose?: ObservePurpose; // Default: 'load'
+	rootMargin?: string; // Overrides the purpose's margin
+	threshold?: number | number[]; // Overrides the purpose's threshold
+	once?: boolean; // Stop observing once the element is first in view
+	preload?: PreloadTarget;
+}
+
+interface Registration {
 	callback: IntersectionCallback;
+	observerKey: string;
+	once: boolean;
+	preload?: PreloadTarget;
 }
 
-class LazyLoadManager {
-	private observer: IntersectionObserver | null = null;
-	private entries: Map<Element, ObserverEntry> = new Map();
-	private readonly config: IntersectionObserverInit = {
-		rootMargin: '20% 0px',
-		threshold: 0.01,
+const PURPOSE_DEFAULTS: Record<ObservePurpose, IntersectionObserverInit> = {
+	load: { rootMargin: '20% 0px', threshold: 0.01 },
+	playback: { rootMargin: '0px', threshold: 0.25 },
+};
+
+function observerConfig(options: ObserveOptions): IntersectionObserverInit {
+	const defaults = PURPOSE_DEFAULTS[options.purpose ?? 'load'];
+	return {
+		rootMargin: options.rootMargin ?? defaults.rootMargin,
+		threshold: options.threshold ?? defaults.threshold,
 	};
+}
+
+// The preloader holds one target per element: that of its first registration with one
+const preloadRegistration = (registrations: Set<Registration>): Registration | undefined =>
+	[...registrations].find((registration) => registration.preload);
+
+const observerKey = (config: IntersectionObserverInit): string =>
+	`${config.rootMargin}|${[config.threshold].flat().join(',')}`;
 
-	private createObserver(): IntersectionObserver {
+// Ratios come back as floats a hair under the threshold they crossed
+const RATIO_TOLERANCE = 0.001;
+
+/**
+ * In view for a config: intersecting with at least its smallest threshold visible
+ * (isIntersecting alone is true for anything touching the margin)
+ */
+function isInView(entry: IntersectionObserverEntry, config: IntersectionObserverInit): boolean {
+	const minRatio = Math.min(...[config.threshold ?? 0].flat());
+	return entry.isIntersecting && entry.intersectionRatio + RATIO_TOLERANCE >= minRatio;
+}
+
+class LazyLoadManager {
+	private observers: Map<string, IntersectionObserver> = new Map();
+	private entries: Map<Element, Set<Registration>> = new Map();
+
+	private createObserver(key: string, config: IntersectionObserverInit): IntersectionObserver {
 		return new IntersectionObserver((entries) => {
 			entries.forEach((entry) => {
-				const stored = this.entries.get(entry.target);
-				if (stored) {
-					stored.callback(entry);
-				}
+				const registrations = this.entries.get(entry.target);
+				if (!registrations) return;
+				[...registrations].forEach((registration) => {
+					if (registration.observerKey !== key) return;
+					registration.callback(entry);
+					if (registration.once && isInView(entry, config)) {
+						this.remove(entry.target, registration);
+					}
+				});
 			});
-		}, this.config);
+		}, config);
 	}
 
 	/**
 	 * Observe an element for intersection
+	 * @returns Function that stops this observation only (other callbacks on the element stay)
 	 */
-	observe(element: Element, callback: IntersectionCallback): void {
-		if (!this.observer) {
-			this.observer = this.createObserver();
+	observe(element: Element, callback: IntersectionCallback, options: ObserveOptions = {}): () => void {
+		const config = observerConfig(options);
+		const key = observerKey(config);
+		let observer = this.observers.get(key);
+		if (!observer) {
+			observer = this.createObserver(key, config);
+			this.observers.set(key, observer);
+		}
+
+		const registration: Registration = {
+			callback,
+			observerKey: key,
+			once: options.once === true,
+			preload: options.preload,
+		};
+		const registrations = this.entries.get(element) ?? new Set();
+		const preloading = preloadRegistration(registrations) !== undefined;
+		registrations.add(registration);
+		this.entries.set(element, registrations);
+		observer.observe(element);
+		if (options.preload && !preloading) {
+			sectionPreloader.register(element, options.preload);
 		}
 
-		this.entries.set(element, { element, callback });
-		this.observer.observe(element);
+		return () => this.remove(element, registration);
 	}
 
 	/**
-	 * Stop observing an element
+	 * Stop observing an element (every callback registered for it)
 	 */
 	unobserve(element: Element): void {
-		if (this.observer) {
-			this.observer.unobserve(element);
+		const registrations = this.entries.get(element);
+		if (!registrations) return;
+		[...registrations].forEach((registration) => this.remove(element, registration));
+	}
+
+	private remove(element: Element, registration: Registration): void {
+		const registrations = this.entries.get(element);
+		if (!registrations?.has(registration)) return;
+		const preloading = preloadRegistration(registrations);
+		registrations.delete(registration);
+
+		// The shared observer keeps watching while another callback on the element uses it
+		if (![...registrations].some((other) => other.observerKey === registration.observerKey)) {
+			this.observers.get(registration.observerKey)?.unobserve(element);
+		}
+		// Hand the element's preload slot to the next registration with a target, if any
+		if (registration === preloading) {
+			const next = preloadRegistration(registrations);
+			if (next?.preload) {
+				sectionPreloader.register(element, next.preload);
+			} else {
+				sectionPreloader.unregister(element);
+			}
+		}
+		if (registrations.size === 0) {
 			this.entries.delete(element);
 		}
 	}
 
 	/**
-	 * Disconnect the observer and clean up
+	 * Disconnect every observer and clean up
 	 */
 	disconnect(): void {
-		if (this.observer) {
-			this.observer.disconnect();
-			this.observer = null;
-			this.entries.clear();
-		}
+		this.observers.forEach((observer) => observer.disconnect());
+		this.observers.clear();
+		this.entries.clear();
+		sectionPreloader.disconnect();
 	}
 }
 
 // Singleton instance
 export const lazyLoadManager = new LazyLoadManager();
 
+export interface InViewOptions extends ObserveOptions {
+	enabled?: boolean; // false: not observed, the value stays where it was (default: true)
+}
+
+/**
+ * Whether the element is in view for the given purpose, through lazyLoadManager
+ * False until the observer first reports; with `once` it stays true after the first time.
+ */
+export function useInView(ref: RefObject<Element | null>, options: InViewOptions = {}): boolean {
+	const { enabled = true, purpose, rootMargin, threshold, once = false, preload } = options;
+	const [inView, setInView] = useState(false);
+
+	// The latest preload target, so a new object every render doesn't re-observe
+	const preloadRef = useRef(preload);
+	preloadRef.current = preload;
+	const hasPreload = preload !== undefined;
+	const thresholdKey = [threshold ?? []].flat().join(',');
+
+	useEffect(() => {
+		const element = ref.current;
+		if (!element || !enabled) return;
+
+		const config = observerConfig({ purpose, rootMargin, threshold });
+
+		return lazyLoadManager.observe(element, (entry) => setInView(isInView(entry, config)), {
+			rootMargin: config.rootMargin,
+			threshold: config.threshold,
+			once,
+			preload: hasPreload ? {
+				load: () => preloadRef.current?.load(),
+				cancel: () => preloadRef.current?.cancel?.(),
+				hint: () => preloadRef.current?.hint?.() ?? null,
+			} : undefined,
+		});
+		// thresholdKey stands in for threshold, which may be a new array every render
+	}, [ref, enabled, purpose, rootMargin, thresholdKey, once, hasPreload]);
+
+	return inView;
+}
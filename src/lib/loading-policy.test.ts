@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { lowRenditionPath, readNetworkSignals, resolveLoadingPolicy, type NetworkSignals } from './loading-policy';
+
+// Mocked browser APIs: a navigator with an optional Network Information connection and a media query stub
+const navigatorWith = (connection?: { saveData?: boolean; effectiveType?: string }): Navigator =>
+	({ connection }) as unknown as Navigator;
+const reducedData = (matches: boolean) => (query: string) => ({ matches: matches && query === '(prefers-reduced-data: reduce)' });
+
+const signals = (overrides: Partial<NetworkSignals> = {}): NetworkSignals => ({
+	saveData: false,
+	prefersReducedData: false,
+	...overrides,
+});
+
+describe('readNetworkSignals', () => {
+	it('reads Save-Data, the effective type and prefers-reduced-data', () => {
+		expect(readNetworkSignals(navigatorWith({ saveData: true, effectiveType: '3g' }), reducedData(true))).toEqual({
+			saveData: true,
+			effectiveType: '3g',
+			prefersReducedData: true,
+		});
+	});
+
+	it('falls back to no signals without the Network Information API', () => {
+		expect(readNetworkSignals(navigatorWith(), reducedData(false))).toEqual({
+			saveData: false,
+			effectiveType: undefined,
+			prefersReducedData: false,
+		});
+	});
+});
+
+describe('resolveLoadingPolicy', () => {
+	it.each([
+		['4g', 'full'],
+		['3g', 'reduced'],
+		['2g', 'minimal'],
+		['slow-2g', 'minimal'],
+		[undefined, 'full'],
+	])('maps effective type %s to %s', (effectiveType, mode) => {
+		expect(resolveLoadingPolicy(signals({ effectiveType })).mode).toBe(mode);
+	});
+
+	it('loads everything ahead of time on fast connections', () => {
+		expect(resolveLoadingPolicy(signals({ effectiveType: '4g' }))).toEqual({
+			mode: 'full',
+			preloadPriority: true,
+			videoRendition: 'full',
+			videoPlayback: 'autoplay',
+		});
+	});
+
+	it('waits for the viewport and lowers quality on 3g', () => {
+		expect(resolveLoadingPolicy(signals({ effectiveType: '3g' }))).toEqual({
+			mode: 'reduced',
+			preloadPriority: false,
+			videoRendition: 'low',
+			videoPlayback: 'autoplay',
+			imageQuality: 75,
+		});
+	});
+
+	it('goes minimal with Save-Data, even on 4g', () => {
+		expect(resolveLoadingPolicy(signals({ saveData: true, effectiveType: '4g' }))).toEqual({
+			mode: 'minimal',
+			preloadPriority: false,
+			videoRendition: 'low',
+			videoPlayback: 'click-to-play',
+			imageQuality: 60,
+		});
+	});
+
+	it('goes minimal with prefers-reduced-data', () => {
+		expect(resolveLoadingPolicy(signals({ prefersReducedData: true })).mode).toBe('minimal');
+	});
+
+	it('merges overrides over the mode policy, field by field', () => {
+		expect(resolveLoadingPolicy(signals({ saveData: true }), { videoPlayback: 'autoplay' })).toEqual({
+			mode: 'minimal',
+			preloadPriority: false,
+			videoRendition: 'low',
+			videoPlayback: 'autoplay',
+			imageQuality: 60,
+		});
+		expect(resolveLoadingPolicy(signals(), { imageQuality: 50, preloadPriority: false })).toMatchObject({
+			mode: 'full',
+			preloadPriority: false,
+			videoRendition: 'full',
+			imageQuality: 50,
+		});
+	});
+});
+
+describe('lowRenditionPath', () => {
+	it('points .mp4 files at their _720p sibling', () => {
+		expect(lowRenditionPath('/videos/reel.mp4')).toBe('/videos/reel_720p.mp4');
+		expect(lowRenditionPath('https://cdn.example.com/reel.MP4?v=2')).toBe('https://cdn.example.com/reel_720p.MP4?v=2');
+	});
+
+	it('leaves other paths alone', () => {
+		expect(lowRenditionPath('/videos/reel.webm')).toBe('/videos/reel.webm');
+		expect(lowRenditionPath('/videos/reel.mp4.jpg')).toBe('/videos/reel.mp4.jpg');
+	});
+});
@@ -0,0 +1,113 @@
+/**
+ * Network- and data-saver-aware media loading policy
+ * RULE-018: Progressive asset loading
+ *
+ * LazyImage, LazyVideo and AutoplayVideo ask this module how much to load:
+ * - full: fast connection, no data saving; priority media loads right away and
+ *   the media of upcoming sections is preloaded (./section-preloader.ts)
+ * - reduced (3g): media waits until it is (nearly) on screen, videos use the
+ *   lower-bitrate rendition, images are requested at a lower quality
+ * - minimal (Save-Data, prefers-reduced-data, 2g): as reduced, and videos show
+ *   their poster until tapped (click-to-play); background videos stay posters
+ *
+ * Signals: navigator.connection.saveData (the browser's Save-Data setting),
+ * navigator.connection.effectiveType and the prefers-reduced-data media query.
+ * Browsers without them get the full policy. Components take a `loadingPolicy`
+ * prop that overrides single fields, e.g. `{ videoPlayback: 'autoplay' }`.
+ *
+ * readNetworkSignals and resolveLoadingPolicy take the browser APIs as
+ * arguments, so the policy can be checked against mocked navigators.
+ */
+
+import { useEffect, useState } from 'react';
+
+export type LoadingMode = 'full' | 'reduced' | 'minimal';
+
+export interface LoadingPolicy {
+	mode: LoadingMode;
+	preloadPriority: boolean; // Media may load before it is on screen (priority media, upcoming sections)
+	videoRendition: 'full' | 'low'; // 'low': the _720p.mp4 sibling of direct video files
+	videoPlayback: 'autoplay' | 'click-to-play'; // Background videos treat click-to-play as poster only
+	imageQuality?: number; // Upper bound for the Optimizer quality of lazily loaded images
+}
+
+export type LoadingPolicyOverride = Partial<Omit<LoadingPolicy, 'mode'>>;
+
+export interface NetworkSignals {
+	saveData: boolean;
+	effectiveType?: string; // 'slow-2g' | '2g' | '3g' | '4g'
+	prefersReducedData: boolean;
+}
+
+// Network Information API, not in every browser (or in lib.dom)
+interface NetworkInformation extends EventTarget {
+	saveData?: boolean;
+	effectiveType?: string;
+}
+
+type NavigatorWithConnection = Navigator & { connection?: NetworkInformation };
+
+const POLICIES: Record<LoadingMode, LoadingPolicy> = {
+	full: { mode: 'full', preloadPriority: true, videoRendition: 'full', videoPlayback: 'autoplay' },
+	reduced: { mode: 'reduced', preloadPriority: false, videoRendition: 'low', videoPlayback: 'autoplay', imageQuality: 75 },
+	minimal: { mode: 'minimal', preloadPriority: false, videoRendition: 'low', videoPlayback: 'click-to-play', imageQuality: 60 },
+};
+
+const REDUCED_DATA_QUERY = '(prefers-reduced-data: reduce)';
+const LOW_RENDITION_SUFFIX = '_720p';
+
+export function readNetworkSignals(
+	nav: Navigator = navigator,
+	matchMedia: (query: string) => { matches: boolean } = (query) => window.matchMedia(query)
+): NetworkSignals {
+	const connection = (nav as NavigatorWithConnection).connection;
+	return {
+		saveData: connection?.saveData === true,
+		effectiveType: connection?.effectiveType,
+		prefersReducedData: matchMedia(REDUCED_DATA_QUERY).matches,
+	};
+}
+
+export function loadingMode(signals: NetworkSignals): LoadingMode {
+	if (signals.saveData || signals.prefersReducedData) return 'minimal';
+	if (signals.effectiveType === 'slow-2g' || signals.effectiveType === '2g') return 'minimal';
+	if (signals.effectiveType === '3g') return 'reduced';
+	return 'full';
+}
+
+export function resolveLoadingPolicy(signals: NetworkSignals, override: LoadingPolicyOverride = {}): LoadingPolicy {
+	return { ...POLICIES[loadingMode(signals)], ...override };
+}
+
+/**
+ * Lower-bitrate sibling of a direct video file: /reel.mp4 -> /reel_720p.mp4
+ * Only .mp4 files have one; other paths come back unchanged.
+ */
+export function lowRenditionPath(path: string): string {
+	return path.replace(/(\.mp4)(?=$|[?#])/i, `${LOW_RENDITION_SUFFIX}$1`);
+}
+
+/**
+ * Policy for a component, null until it has been read in the browser
+ * (server render and hydration don't know the connection). Follows connection
+ * and media query changes, e.g. the viewer turning on data saving.
+ */
+export function useLoadingPolicy(override?: LoadingPolicyOverride): LoadingPolicy | null {
+	const [signals, setSignals] = useState<NetworkSignals | null>(null);
+
+	useEffect(() => {
+		const update = (): void => setSignals(readNetworkSignals());
+		update();
+
+		const connection = (navigator as NavigatorWithConnection).connection;
+		const mediaQuery = window.matchMedia(REDUCED_DATA_QUERY);
+		connection?.addEventListener('change', update);
+		mediaQuery.addEventListener('change', update);
+		return () => {
+			connection?.removeEventListener('change', update);
+			mediaQuery.removeEventListener('change', update);
+		};
+	}, []);
+
+	return signals ? resolveLoadingPolicy(signals, override) : null;
+}
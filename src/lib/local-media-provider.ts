@@ -0,0 +1,49 @@
+/**
+ * Local media provider
+ * Serves media from the project's media/ folder through the dev server
+ * (src/integrations/local-media.ts), so the deck runs without a CDN.
+ *
+ * media/ mirrors the pull zones' paths; pull zone names are ignored:
+ * - media/wp-content/uploads/2025/02/photo.jpg  <- '/wp-content/uploads/2025/02/photo.jpg'
+ * - media/Times10-Reel.mp4                       <- '/Times10-Reel.mp4'
+ * - media/stream/<videoId>/playlist.m3u8, thumbnail.jpg, captions/<lang>.vtt for Bunny Stream ids
+ *
+ * Image URLs keep the Bunny Optimizer query parameters and the dev server
+ * applies them with sharp, so srcset widths behave like production.
+ */
+
+import { bunnyImagePath } from './media-paths';
+import type { MediaImageOptions, MediaProvider } from './media-provider';
+
+export const LOCAL_MEDIA_PREFIX = '/_media';
+
+const localPath = (path: string): string => `${LOCAL_MEDIA_PREFIX}${path.startsWith('/') ? path : `/${path}`}`;
+
+export const localMediaProvider: MediaProvider = {
+	name: 'local',
+
+	image(path: string, options: MediaImageOptions): string {
+		return `${LOCAL_MEDIA_PREFIX}${bunnyImagePath(path, options)}`;
+	},
+
+	videoFile(path: string): string {
+		return localPath(path);
+	},
+
+	videoStream(videoId: string): string {
+		return localPath(`/stream/${videoId}/playlist.m3u8`);
+	},
+
+	videoPoster(videoId: string): string {
+		return localPath(`/stream/${videoId}/thumbnail.jpg`);
+	},
+
+	videoCaptions(videoId: string, srclang: string): string {
+		return localPath(`/stream/${videoId}/captions/${srclang}.vtt`);
+	},
+
+	// No hosted player offline; use videoStream with a <video> element instead
+	videoEmbed(): string {
+		return '';
+	},
+};
@@ -0,0 +1,259 @@
+/**
+ * Singleton coordinator for every <video> on the page
+ * RULE-018: Progressive asset loading, companion to lazyLoadManager
+ *
+ * Components register their <video> and call play/pause through the coordinator
+ * instead of on the element. It enforces:
+ * - one audible video: unmuting a video mutes whichever other one had sound
+ * - a cap on muted videos playing at once per device class (phones decode few
+ *   streams smoothly); the most visible videos win, the rest wait paused
+ * - off-screen videos pause, and after RELEASE_DELAY_MS their component is asked
+ *   to release the decoder (onRelease, e.g. unmount the <video>); videos preloaded
+ *   for an upcoming section are kept until they have been on screen
+ * Videos the viewer paused themselves are never resumed by the coordinator.
+ */
+
+export type DeviceClass = 'phone' | 'tablet' | 'desktop';
+
+export interface MediaRegistration {
+	onRelease?: () => void; // Free the decoder: unmount the <video> or drop its src
+}
+
+interface MediaEntry {
+	video: HTMLVideoElement;
+	onRelease?: () => void;
+	visibility: number; // Intersection ratio; 1 until the observer first reports
+	seen: boolean; // Has been on screen at least once
+	wantsPlay: boolean; // Playback was requested and the viewer hasn't paused it
+	startedAt: number; // Most recent play request, newest wins ties
+	coordinatorPause: boolean; // Next pause event comes from the coordinator
+	releaseTimer: ReturnType<typeof setTimeout> | null;
+	removeListeners: () => void;
+}
+
+const MAX_MUTED_PLAYING: Record<DeviceClass, number> = {
+	phone: 2,
+	tablet: 3,
+	desktop: 4,
+};
+const RELEASE_DELAY_MS = 15_000;
+const VISIBILITY_THRESHOLDS = [0, 0.25, 0.5, 0.75, 1];
+
+/**
+ * Device class from viewport, pointer and memory; low-memory devices count as phones
+ */
+export function detectDeviceClass(): DeviceClass {
+	const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+	if (window.matchMedia('(max-width: 767px)').matches || (memory !== undefined && memory <= 2)) {
+		return 'phone';
+	}
+	if (window.matchMedia('(max-width: 1279px), (pointer: coarse)').matches) {
+		return 'tablet';
+	}
+	return 'desktop';
+}
+
+const isAudible = (video: HTMLVideoElement): boolean => !video.paused && !video.muted && video.volume > 0;
+
+class MediaCoordinator {
+	private observer: IntersectionObserver | null = null;
+	private entries: Map<HTMLVideoElement, MediaEntry> = new Map();
+	private maxMutedPlaying: number | null = null;
+	private scheduled = false;
+
+	private createObserver(): IntersectionObserver {
+		return new IntersectionObserver(
+			(observed) => {
+				observed.forEach((intersection) => {
+					const entry = this.entries.get(intersection.target as HTMLVideoElement);
+					if (entry) {
+						entry.visibility = intersection.isIntersecting ? intersection.intersectionRatio : 0;
+						entry.seen ||= entry.visibility > 0;
+					}
+				});
+				this.schedule();
+			},
+			{ threshold: VISIBILITY_THRESHOLDS }
+		);
+	}
+
+	private get cap(): number {
+		this.maxMutedPlaying ??= MAX_MUTED_PLAYING[detectDeviceClass()];
+		return this.maxMutedPlaying;
+	}
+
+	/**
+	 * Register a video; returns the function that unregisters it
+	 */
+	register(video: HTMLVideoElement, options: MediaRegistration = {}): () => void {
+		if (!this.observer) {
+			this.observer = this.createObserver();
+		}
+
+		const handlePlay = (): void => {
+			// Native controls or the autoplay attribute count as a play request
+			const entry = this.entries.get(video);
+			if (entry && !entry.wantsPlay) {
+				entry.wantsPlay = true;
+				entry.startedAt = performance.now();
+			}
+			if (isAudible(video)) this.silenceOthers(video);
+			this.schedule();
+		};
+		const handlePause = (): void => {
+			const entry = this.entries.get(video);
+			if (!entry) return;
+			// Any pause but the coordinator's own is the viewer's (or the component's) choice
+			if (entry.coordinatorPause) {
+				entry.coordinatorPause = false;
+			} else {
+				entry.wantsPlay = false;
+			}
+			this.schedule();
+		};
+		const handleVolumeChange = (): void => {
+			if (isAudible(video)) this.silenceOthers(video);
+			this.schedule();
+		};
+
+		video.addEventListener('play', handlePlay);
+		video.addEventListener('pause', handlePause);
+		video.addEventListener('volumechange', handleVolumeChange);
+
+		this.entries.set(video, {
+			video,
+			onRelease: options.onRelease,
+			visibility: 1,
+			seen: false,
+			wantsPlay: !video.paused,
+			startedAt: performance.now(),
+			coordinatorPause: false,
+			releaseTimer: null,
+			removeListeners: () => {
+				video.removeEventListener('play', handlePlay);
+				video.removeEventListener('pause', handlePause);
+				video.removeEventListener('volumechange', handleVolumeChange);
+			},
+		});
+		this.observer.observe(video);
+
+		return () => this.unregister(video);
+	}
+
+	/**
+	 * Stop coordinating a video (its element is going away)
+	 */
+	unregister(video: HTMLVideoElement): void {
+		const entry = this.entries.get(video);
+		if (!entry) return;
+
+		entry.removeListeners();
+		if (entry.releaseTimer) clearTimeout(entry.releaseTimer);
+		this.observer?.unobserve(video);
+		this.entries.delete(video);
+		this.schedule();
+	}
+
+	/**
+	 * Request playback; starts now if a slot is free, otherwise when one frees up
+	 * Rejects like HTMLMediaElement.play() when the browser blocks autoplay.
+	 */
+	play(video: HTMLVideoElement): Promise<void> {
+		const entry = this.entries.get(video);
+		if (!entry) return video.play();
+
+		entry.wantsPlay = true;
+		entry.startedAt = performance.now();
+		if (!this.allowedToPlay().has(entry)) {
+			this.schedule();
+			return Promise.resolve();
+		}
+		const playing = video.play();
+		this.schedule();
+		return playing;
+	}
+
+	/**
+	 * Pause on the component's behalf (e.g. scrolled away); drops the play request
+	 */
+	pause(video: HTMLVideoElement): void {
+		const entry = this.entries.get(video);
+		if (entry) entry.wantsPlay = false;
+		video.pause();
+	}
+
+	private silenceOthers(audible: HTMLVideoElement): void {
+		this.entries.forEach(({ video }) => {
+			if (video !== audible && isAudible(video)) {
+				video.muted = true;
+			}
+		});
+	}
+
+	/**
+	 * Entries that may play: visible, requested, the audible one plus the most
+	 * visible muted ones up to the device cap
+	 */
+	private allowedToPlay(): Set<MediaEntry> {
+		const candidates = [...this.entries.values()]
+			.filter((entry) => entry.wantsPlay && entry.visibility > 0)
+			.sort((a, b) => b.visibility - a.visibility || b.startedAt - a.startedAt);
+
+		const allowed = new Set<MediaEntry>();
+		let muted = 0;
+		for (const entry of candidates) {
+			if (!entry.video.muted) {
+				allowed.add(entry);
+			} else if (muted < this.cap) {
+				allowed.add(entry);
+				muted++;
+			}
+		}
+		return allowed;
+	}
+
+	// Batches the events of one frame (e.g. several videos entering at once) into one pass
+	private schedule(): void {
+		if (this.scheduled) return;
+		this.scheduled = true;
+		queueMicrotask(() => {
+			this.scheduled = false;
+			this.enforce();
+		});
+	}
+
+	private enforce(): void {
+		const allowed = this.allowedToPlay();
+
+		this.entries.forEach((entry) => {
+			const { video } = entry;
+
+			if (entry.visibility === 0 && entry.seen) {
+				entry.releaseTimer ??= setTimeout(() => {
+					entry.releaseTimer = null;
+					if (this.entries.get(video) === entry && entry.visibility === 0) {
+						entry.onRelease?.();
+					}
+				}, RELEASE_DELAY_MS);
+			} else if (entry.releaseTimer) {
+				clearTimeout(entry.releaseTimer);
+				entry.releaseTimer = null;
+			}
+
+			if (allowed.has(entry)) {
+				if (video.paused) {
+					video.play().catch(() => {
+						// Autoplay blocked; the component's own retry/controls take over
+					});
+				}
+			} else if (!video.paused) {
+				// Over the cap or off-screen: keep the request so it resumes when a slot frees
+				entry.coordinatorPause = true;
+				video.pause();
+			}
+		});
+	}
+}
+
+// Singleton instance
+export const mediaCoordinator = new MediaCoordinator();
@@ -0,0 +1,62 @@
+/**
+ * Media path helpers without env access
+ * Safe to import from the build integrations in src/integrations, which run
+ * before astro:env exists; the URL helpers in ./bunny-cdn.ts build on these.
+ */
+
+import type { MediaImageOptions } from './media-provider';
+
+/**
+ * Pull zone for a path when none is given: WordPress uploads are served from
+ * the WordPress pull zone, everything else was uploaded to Bunny Storage
+ */
+export function inferPullZone(path: string): 'wordpress' | 'storage' {
+	return path.startsWith('/wp-content/') ? 'wordpress' : 'storage';
+}
+
+/**
+ * Pull-zone-relative part of a Bunny image URL: path plus Optimizer transform parameters
+ * Lets build tools resolve image URLs against their own env (see src/integrations/page-weight.ts)
+ * @example
+ * bunnyImagePath('hero.jpg', { width: 1920, quality: 85 })
+ * // '/hero.jpg?width=1920&quality=85'
+ */
+export function bunnyImagePath(path: string, options: Omit<MediaImageOptions, 'pullZone'> = {}): string {
+	const { width, height, quality, aspectRatio, format } = options;
+
+	// Validate inputs
+	if (width !== undefined && (typeof width !== 'number' || width <= 0)) {
+		throw new Error('Width must be a positive number');
+	}
+	if (height !== undefined && (typeof height !== 'number' || height <= 0)) {
+		throw new Error('Height must be a positive number');
+	}
+	if (quality !== undefined && (quality < 1 || quality > 100)) {
+		throw new Error('Quality must be between 1 and 100');
+	}
+
+	const params = new URLSearchParams();
+	if (width) params.set('width', width.toString());
+	if (height) params.set('height', height.toString());
+	if (quality) params.set('quality', quality.toString());
+	if (aspectRatio) params.set('aspect_ratio', aspectRatio);
+	if (format) params.set('format', format);
+
+	const queryString = params.toString();
+	const cleanPath = path.startsWith('/') ? path : `/${path}`;
+
+	return queryString ? `${cleanPath}?${queryString}` : cleanPath;
+}
+
+// Default srcset widths; covers phones at 2-3x up to full-HD desktops
+export const DEFAULT_IMAGE_WIDTHS = [320, 640, 960, 1280, 1600, 1920];
+
+/**
+ * Widths from the ladder up to `maxWidth`, always including `maxWidth` itself
+ * so the largest candidate matches the image's intended size
+ */
+export function widthLadder(maxWidth?: number, widths: number[] = DEFAULT_IMAGE_WIDTHS): number[] {
+	const sorted = [...new Set(widths)].sort((a, b) => a - b);
+	if (!maxWidth) return sorted;
+	return [...sorted.filter((width) => width < maxWidth), maxWidth];
+}
@@ -0,0 +1,84 @@
+/**
+ * Media provider abstraction
+ * The bunny-cdn.ts helpers (bunnyImage, bunnyVideoFile...) build every media URL
+ * in the deck; they delegate to the active MediaProvider, so components never
+ * depend on one CDN.
+ *
+ * Providers:
+ * - bunny: Bunny CDN pull zones + Bunny Stream (./bunny-provider.ts)
+ * - local: files in the project's media/ folder, resized on the fly by the
+ *   dev server (./local-media-provider.ts, src/integrations/local-media.ts)
+ *
+ * Selection (PUBLIC_MEDIA_PROVIDER):
+ * - 'bunny' or 'local' picks that provider
+ * - unset: bunny, except in dev without any PUBLIC_BUNNY_CDN_URL* where raw
+ *   paths would 404, so the deck works offline from media/
+ * Another CDN plugs in by implementing MediaProvider and calling setMediaProvider
+ * before the first URL is built.
+ */
+
+import { PUBLIC_MEDIA_PROVIDER } from 'astro:env/client';
+import { bunnyProvider } from './bunny-provider';
+import { hasCdnConfig } from './cdn-config';
+import { localMediaProvider } from './local-media-provider';
+
+// Output formats an image can be converted to (Bunny Optimizer `format` parameter)
+export type ImageFormat = 'avif' | 'webp' | 'jpeg' | 'png';
+
+export interface MediaImageOptions {
+	width?: number;
+	height?: number;
+	quality?: number;
+	aspectRatio?: string;
+	format?: ImageFormat; // Convert on the CDN, e.g. 'avif' for a <picture> <source>
+	pullZone?: string; // Optional: specify a named pull zone (e.g., "images", "assets")
+}
+
+export interface VideoEmbedOptions {
+	autoplay?: boolean;
+	loop?: boolean;
+}
+
+export interface MediaProvider {
+	readonly name: string;
+	/** Image URL with resize/format transforms applied by the provider */
+	image(path: string, options: MediaImageOptions): string;
+	/** Direct video file URL (muted background loops) */
+	videoFile(path: string, pullZone: string): string;
+	/** Adaptive HLS playlist for a stream video, '' when unavailable */
+	videoStream(videoId: string): string;
+	/** Poster frame for a stream video, '' when unavailable */
+	videoPoster(videoId: string): string;
+	/** WebVTT captions of a stream video in one language, '' when unavailable */
+	videoCaptions(videoId: string, srclang: string): string;
+	/** Hosted player page for a stream video, '' when the provider has none */
+	videoEmbed(videoId: string, options: VideoEmbedOptions): string;
+}
+
+const PROVIDERS: Record<NonNullable<typeof PUBLIC_MEDIA_PROVIDER>, MediaProvider> = {
+	bunny: bunnyProvider,
+	local: localMediaProvider,
+};
+
+let activeProvider: MediaProvider | undefined;
+
+function resolveProvider(): MediaProvider {
+	// Values are checked by the env schema in astro.config.mjs
+	if (PUBLIC_MEDIA_PROVIDER) return PROVIDERS[PUBLIC_MEDIA_PROVIDER];
+	return import.meta.env.DEV && !hasCdnConfig() ? localMediaProvider : bunnyProvider;
+}
+
+/**
+ * Provider every media URL is currently built with
+ */
+export function getMediaProvider(): MediaProvider {
+	activeProvider ??= resolveProvider();
+	return activeProvider;
+}
+
+/**
+ * Replace the media provider, e.g. with another CDN's implementation
+ */
+export function setMediaProvider(provider: MediaProvider): void {
+	activeProvider = provider;
+}
@@ -0,0 +1,108 @@
+/**
+ * Presentation Controls
+ * Keyboard and presenter-clicker navigation for the deck, one snap section per press
+ * Built on SectionTracker; scrolling respects prefers-reduced-motion (RULE-008)
+ *
+ * - Next: ArrowDown, ArrowRight, PageDown, Space
+ * - Previous: ArrowUp, ArrowLeft, PageUp, Shift+Space
+ * - Home / End: first / last section
+ * - Number keys then Enter: jump to that slide (1-based), Escape clears
+ *
+ * Most presenter clickers send PageUp/PageDown or the arrow keys.
+ */
+
+import type { SectionTracker } from './section-tracker';
+
+const NEXT_KEYS = new Set(['ArrowDown', 'ArrowRight', 'PageDown']);
+const PREV_KEYS = new Set(['ArrowUp', 'ArrowLeft', 'PageUp']);
+
+// Typed slide number is dropped if Enter doesn't follow within this window
+const SLIDE_NUMBER_TIMEOUT = 2000;
+
+// Keys typed into these belong to the element, not the deck
+const EDITABLE_SELECTOR = 'input, textarea, select, [contenteditable]:not([contenteditable="false"])';
+// Space/Enter activate these natively
+const ACTIVATABLE_SELECTOR = 'a[href], button, summary, [role="button"], [role="tab"]';
+// The menu tray covers the deck while open (Navigation.astro)
+const MENU_OPEN_SELECTOR = '#menu-toggle[aria-expanded="true"]';
+
+/**
+ * Start listening for presentation keys
+ * @returns Cleanup function that removes the listener
+ */
+export function initPresentationControls(tracker: SectionTracker): () => void {
+	let slideNumber = '';
+	let slideNumberTimeout: number | null = null;
+
+	const clearSlideNumber = (): void => {
+		slideNumber = '';
+		if (slideNumberTimeout !== null) {
+			clearTimeout(slideNumberTimeout);
+			slideNumberTimeout = null;
+		}
+	};
+
+	const handleKeydown = (event: KeyboardEvent): void => {
+		if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+		if (document.querySelector(MENU_OPEN_SELECTOR)) return;
+
+		const target = event.target instanceof Element ? event.target : null;
+		if (target?.closest(EDITABLE_SELECTOR)) return;
+
+		// Number keys, then Enter
+		if (/^[0-9]$/.test(event.key)) {
+			slideNumber += event.key;
+			if (slideNumberTimeout !== null) {
+				clearTimeout(slideNumberTimeout);
+			}
+			slideNumberTimeout = window.setTimeout(clearSlideNumber, SLIDE_NUMBER_TIMEOUT);
+			return;
+		}
+		if (event.key === 'Enter' && slideNumber) {
+			const index = parseInt(slideNumber, 10) - 1;
+			clearSlideNumber();
+			if (index >= 0 && index < tracker.count) {
+				event.preventDefault();
+				tracker.goTo(index);
+			}
+			return;
+		}
+		if (event.key === 'Escape') {
+			clearSlideNumber();
+			return;
+		}
+
+		// Holding a key down should not skip through the deck
+		if (event.repeat && (NEXT_KEYS.has(event.key) || PREV_KEYS.has(event.key) || event.key === ' ')) {
+			event.preventDefault();
+			return;
+		}
+
+		if (event.key === ' ' && target?.closest(ACTIVATABLE_SELECTOR)) return;
+
+		let handled = true;
+		if (NEXT_KEYS.has(event.key) || (event.key === ' ' && !event.shiftKey)) {
+			tracker.next();
+		} else if (PREV_KEYS.has(event.key) || (event.key === ' ' && event.shiftKey)) {
+			tracker.prev();
+		} else if (event.key === 'Home') {
+			tracker.goTo(0);
+		} else if (event.key === 'End') {
+			tracker.goTo(tracker.count - 1);
+		} else {
+			handled = false;
+		}
+
+		// Stop the native scroll so exactly one section moves
+		if (handled) {
+			event.preventDefault();
+		}
+	};
+
+	document.addEventListener('keydown', handleKeydown);
+
+	return () => {
+		document.removeEventListener('keydown', handleKeydown);
+		clearSlideNumber();
+	};
+}
@@ -0,0 +1,259 @@
+/**
+ * Presenter Mode
+ * Open any deck page with `?presenter` for a speaker view: current and next
+ * section previews, speaker notes and an elapsed timer.
+ *
+ * Every open window of the same page stays on the same section over
+ * BroadcastChannel (same machine, no server, works offline), so the audience
+ * tab follows the presenter tab and vice versa. Sections are identified by the
+ * ids SectionTracker assigns (see ./section-ids.ts).
+ *
+ * Speaker notes come from the optional `notes` field on deck blocks, published
+ * by DeckRenderer as JSON under SPEAKER_NOTES_ID (one entry per section).
+ */
+
+import type { ActiveSection, SectionTracker } from './section-tracker';
+
+export const SPEAKER_NOTES_ID = 'speaker-notes';
+export const PRESENTER_PARAM = 'presenter';
+
+type SyncMessage =
+	| { type: 'hello' }
+	| { type: 'section'; id: string };
+
+// Previews render the real page at a desktop size, then scale it down
+const PREVIEW_WIDTH = 1600;
+const PREVIEW_HEIGHT = 900;
+
+/**
+ * Keep this window in sync with other windows of the same page and, with
+ * `?presenter` in the URL, show the presenter view
+ * @returns Cleanup function
+ */
+export function initPresenter(tracker: SectionTracker): () => void {
+	// Preview frames inside the presenter view are driven by their parent
+	if (window.self !== window.top) return () => {};
+
+	const cleanups = [initSync(tracker)];
+	if (new URLSearchParams(window.location.search).has(PRESENTER_PARAM)) {
+		cleanups.push(initPresenterView(tracker));
+	}
+	return () => cleanups.forEach((cleanup) => cleanup());
+}
+
+function initSync(tracker: SectionTracker): () => void {
+	if (!('BroadcastChannel' in window)) {
+		console.warn('[Presenter] BroadcastChannel is not supported, windows will not stay in sync');
+		return () => {};
+	}
+
+	const channel = new BroadcastChannel(`deck:${window.location.pathname}`);
+	// Section we were told to show; its change event must not be echoed back
+	let remoteId: string | null = null;
+	let ready = false;
+
+	const unsubscribe = tracker.subscribe(({ id }) => {
+		// Skip the immediate call on subscribe: a newly opened window asks where
+		// the others are instead of pulling them to its first section
+		if (!ready) return;
+		if (id === remoteId) {
+			remoteId = null;
+			return;
+		}
+		channel.postMessage({ type: 'section', id } satisfies SyncMessage);
+	});
+	ready = true;
+
+	channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+		const message = event.data;
+		if (message.type === 'hello') {
+			if (tracker.current) {
+				channel.postMessage({ type: 'section', id: tracker.current.id } satisfies SyncMessage);
+			}
+			return;
+		}
+		if (message.type === 'section' && message.id !== tracker.current?.id) {
+			remoteId = message.id;
+			if (!tracker.goTo(message.id)) {
+				remoteId = null;
+			}
+		}
+	};
+
+	channel.postMessage({ type: 'hello' } satisfies SyncMessage);
+
+	return () => {
+		unsubscribe();
+		channel.close();
+	};
+}
+
+function readSpeakerNotes(): (string | null)[] {
+	const script = document.getElementById(SPEAKER_NOTES_ID);
+	if (!script?.textContent) return [];
+	try {
+		const notes: unknown = JSON.parse(script.textContent);
+		return Array.isArray(notes) ? notes.map((note) => (typeof note === 'string' ? note : null)) : [];
+	} catch (error) {
+		console.warn('[Presenter] Could not read speaker notes:', error);
+		return [];
+	}
+}
+
+function formatElapsed(ms: number): string {
+	const totalSeconds = Math.floor(ms / 1000);
+	const hours = Math.floor(totalSeconds / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+	const seconds = totalSeconds % 60;
+	const pad = (value: number): string => value.toString().padStart(2, '0');
+	return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+}
+
+function createElement<K extends keyof HTMLElementTagNameMap>(
+	tag: K,
+	className: string,
+	text?: string
+): HTMLElementTagNameMap[K] {
+	const element = document.createElement(tag);
+	element.className = className;
+	if (text !== undefined) {
+		element.textContent = text;
+	}
+	return element;
+}
+
+interface Preview {
+	container: HTMLElement;
+	show: (section: ActiveSection | null) => void;
+}
+
+/**
+ * A scaled-down, non-interactive copy of this page pinned to one section
+ */
+function createPreview(label: string): Preview {
+	const container = createElement('figure', 'flex flex-col gap-2 min-w-0');
+	const caption = createElement('figcaption', 'text-[#ca2c1e] lowercase text-sm font-medium tracking-wider', label);
+	const viewport = createElement('div', 'relative w-full aspect-video overflow-hidden rounded bg-neutral-900');
+	const frame = createElement('iframe', 'absolute top-0 left-0 origin-top-left border-0 pointer-events-none');
+	frame.title = label;
+	frame.tabIndex = -1;
+	frame.setAttribute('aria-hidden', 'true');
+	frame.style.width = `${PREVIEW_WIDTH}px`;
+	frame.style.height = `${PREVIEW_HEIGHT}px`;
+	const empty = createElement('p', 'absolute inset-0 hidden items-center justify-center text-neutral-500', 'end of deck');
+	viewport.append(frame, empty);
+	container.append(caption, viewport);
+
+	new ResizeObserver(() => {
+		frame.style.transform = `scale(${viewport.clientWidth / PREVIEW_WIDTH})`;
+	}).observe(viewport);
+
+	let sectionId: string | null = null;
+	const scrollFrame = (): void => {
+		if (!sectionId) return;
+		frame.contentDocument?.getElementById(sectionId)?.scrollIntoView({ behavior: 'instant', block: 'start' });
+	};
+	frame.addEventListener('load', scrollFrame);
+
+	return {
+		container,
+		show(section) {
+			sectionId = section?.id ?? null;
+			frame.classList.toggle('invisible', !section);
+			empty.classList.toggle('hidden', !!section);
+			empty.classList.toggle('flex', !section);
+			if (!section) return;
+
+			// First load goes straight to the section via the hash (handled by hash-scroll in the frame)
+			if (!frame.src) {
+				frame.src = `${window.location.pathname}#${section.id}`;
+			} else {
+				scrollFrame();
+			}
+		},
+	};
+}
+
+function initPresenterView(tracker: SectionTracker): () => void {
+	const notes = readSpeakerNotes();
+	let startedAt = Date.now();
+
+	const view = createElement('div', 'fixed inset-0 z-[60] bg-black text-white font-sans flex flex-col gap-6 p-6 overflow-hidden');
+	view.id = 'presenter-view';
+	view.setAttribute('role', 'region');
+	view.setAttribute('aria-label', 'Presenter view');
+
+	// Header: position, timer, actions
+	const header = createElement('header', 'flex flex-wrap items-center gap-x-8 gap-y-2');
+	const position = createElement('p', 'text-2xl tabular-nums');
+	const sectionName = createElement('p', 'text-neutral-400 truncate flex-1 min-w-0');
+	const timer = createElement('p', 'text-4xl font-medium tabular-nums', formatElapsed(0));
+	timer.setAttribute('aria-label', 'Elapsed time');
+	const resetButton = createElement('button', 'px-4 py-2 rounded-full border border-neutral-600 hover:border-white transition-colors', 'reset timer');
+	resetButton.type = 'button';
+	const audienceButton = createElement('button', 'px-4 py-2 rounded-full bg-[#ca2c1e] hover:opacity-80 transition-opacity', 'open audience window');
+	audienceButton.type = 'button';
+	header.append(position, sectionName, timer, resetButton, audienceButton);
+
+	// Body: large current preview, next preview and notes beside it
+	const body = createElement('div', 'grid grid-cols-1 lg:grid-cols-[3fr_2fr] gap-6 flex-1 min-h-0');
+	const current = createPreview('current');
+	const aside = createElement('div', 'flex flex-col gap-6 min-h-0');
+	const next = createPreview('next');
+	const notesPanel = createElement('section', 'flex flex-col gap-2 flex-1 min-h-0');
+	const notesTitle = createElement('h2', 'text-[#ca2c1e] lowercase text-sm font-medium tracking-wider', 'notes');
+	const notesBody = createElement('div', 'flex-1 overflow-y-auto text-xl leading-relaxed space-y-4 pr-2');
+	notesPanel.append(notesTitle, notesBody);
+	aside.append(next.container, notesPanel);
+	body.append(current.container, aside);
+
+	const hint = createElement(
+		'p',
+		'text-neutral-500 text-sm',
+		'→ / space: next · ← / shift+space: previous · home / end · number + enter: go to slide'
+	);
+	view.append(header, body, hint);
+	document.body.append(view);
+	document.title = `Presenter · ${document.title}`;
+
+	const renderNotes = (index: number): void => {
+		notesBody.replaceChildren();
+		const text = notes[index];
+		if (!text) {
+			notesBody.append(createElement('p', 'text-neutral-500', 'No notes for this section.'));
+			return;
+		}
+		text.split(/\n\s*\n/).forEach((paragraph) => {
+			notesBody.append(createElement('p', '', paragraph.trim()));
+		});
+	};
+
+	const unsubscribe = tracker.subscribe((active) => {
+		position.textContent = `${active.index + 1} / ${tracker.count}`;
+		sectionName.textContent = `#${active.id}`;
+		current.show(active);
+		next.show(tracker.sectionAt(active.index + 1));
+		renderNotes(active.index);
+	});
+
+	const tick = window.setInterval(() => {
+		timer.textContent = formatElapsed(Date.now() - startedAt);
+	}, 1000);
+
+	resetButton.addEventListener('click', () => {
+		startedAt = Date.now();
+		timer.textContent = formatElapsed(0);
+	});
+
+	// Same page without ?presenter; it syncs to this window when it opens
+	audienceButton.addEventListener('click', () => {
+		const hash = tracker.current ? `#${tracker.current.id}` : '';
+		window.open(`${window.location.pathname}${hash}`, 'deck-audience');
+	});
+
+	return () => {
+		unsubscribe();
+		clearInterval(tick);
+		view.remove();
+	};
+}
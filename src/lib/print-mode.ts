@@ -0,0 +1,88 @@
+/**
+ * Print Mode
+ * Open any deck page with `?print` to export it as a PDF: every snap section
+ * prints as one landscape page (print stylesheet in src/styles/global.css).
+ *
+ * Lazy media only loads near the viewport, so print mode:
+ * - makes LazyImage/LazyVideo/AutoplayVideo load immediately instead of waiting on lazyLoadManager
+ * - swaps videos for their poster frames
+ * - brings each section on screen once so `client:visible` islands hydrate
+ * - waits for every image, then opens the print dialog
+ *
+ * `data-print-ready` is set on <html> once the page is ready, for headless browsers.
+ * Use `?print=preview` to get the ready page without the print dialog.
+ */
+
+import { SECTION_SELECTOR } from './section-tracker';
+
+export const PRINT_PARAM = 'print';
+export const PRINT_MODE_CLASS = 'print-mode';
+
+// Give up waiting for slow media after this long and print what we have
+const MEDIA_TIMEOUT = 15000;
+
+/**
+ * Whether the page was opened with `?print` (always false during SSR)
+ */
+export function isPrintMode(): boolean {
+	if (typeof window === 'undefined') return false;
+	return new URLSearchParams(window.location.search).has(PRINT_PARAM);
+}
+
+const nextFrame = (): Promise<void> => new Promise((resolve) => requestAnimationFrame(() => resolve()));
+const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+function imageLoaded(image: HTMLImageElement): Promise<void> {
+	// Lazy images inside display: none (the other breakpoint's layout) never load
+	if (image.complete || image.getClientRects().length === 0) return Promise.resolve();
+	return new Promise((resolve) => {
+		image.addEventListener('load', () => resolve(), { once: true });
+		image.addEventListener('error', () => resolve(), { once: true });
+	});
+}
+
+// Astro removes the `ssr` attribute from an island once it has hydrated
+async function islandsHydrated(): Promise<void> {
+	while (document.querySelector('astro-island[ssr]')) {
+		await delay(100);
+	}
+}
+
+async function mediaLoaded(): Promise<void> {
+	await islandsHydrated();
+	// Components re-render after hydrating; let them add their <img> elements
+	await nextFrame();
+	await Promise.all([...Array.from(document.images).map(imageLoaded), document.fonts.ready]);
+}
+
+/**
+ * Prepare the page for printing when opened with `?print`
+ */
+export async function initPrintMode(): Promise<void> {
+	if (!isPrintMode()) return;
+
+	const root = document.documentElement;
+	root.classList.add(PRINT_MODE_CLASS);
+
+	// Visit every section so visibility-triggered hydration runs
+	const sections = Array.from(document.querySelectorAll<HTMLElement>(SECTION_SELECTOR));
+	for (const section of sections) {
+		section.scrollIntoView({ behavior: 'instant', block: 'start' });
+		await nextFrame();
+		await nextFrame();
+	}
+	sections[0]?.scrollIntoView({ behavior: 'instant', block: 'start' });
+
+	const timedOut = await Promise.race([
+		mediaLoaded().then(() => false),
+		delay(MEDIA_TIMEOUT).then(() => true),
+	]);
+	if (timedOut) {
+		console.warn('[Print Mode] Some media did not finish loading, printing anyway');
+	}
+
+	root.dataset.printReady = 'true';
+	if (new URLSearchParams(window.location.search).get(PRINT_PARAM) !== 'preview') {
+		window.print();
+	}
+}
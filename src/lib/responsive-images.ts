@@ -0,0 +1,151 @@
+/**
+ * Responsive image helpers: width ladders, `sizes` strings, srcset bundles
+ * and media-query tiers for CSS backgrounds (see src/components/BunnyBackground.astro)
+ * RULE-015: Use Transform API for responsive sizes
+ *
+ * The browser picks a srcset entry from the `sizes` hint and the device pixel ratio,
+ * so a phone no longer downloads the desktop-width file.
+ */
+
+import { getAsset } from './asset-manifest';
+import { DEFAULT_IMAGE_WIDTHS, widthLadder } from './media-paths';
+import { bunnyImage, bunnyImageSrcset, bunnyThumbnail, type BunnyImageOptions, type ImageFormat } from './bunny-cdn';
+
+// Tailwind's default breakpoints (min-width, px)
+export const BREAKPOINTS = {
+	sm: 640,
+	md: 768,
+	lg: 1024,
+	xl: 1280,
+	'2xl': 1536,
+} as const;
+
+export { DEFAULT_IMAGE_WIDTHS, widthLadder };
+
+export type Breakpoint = keyof typeof BREAKPOINTS;
+
+/**
+ * Rendered width per breakpoint, mobile first (like Tailwind classes)
+ * @example { base: '100vw', md: '50vw', xl: '640px' }
+ */
+export type SizesSpec = { base: string } & Partial<Record<Breakpoint, string>>;
+
+/**
+ * Build a `sizes` attribute from a breakpoint map
+ * @example
+ * imageSizes({ base: '100vw', md: '50vw', lg: '33vw' })
+ * // '(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw'
+ */
+export function imageSizes(spec: SizesSpec): string {
+	const { base, ...byBreakpoint } = spec;
+	const conditions = (Object.keys(BREAKPOINTS) as Breakpoint[])
+		.filter((breakpoint) => byBreakpoint[breakpoint])
+		.reverse()
+		.map((breakpoint) => `(min-width: ${BREAKPOINTS[breakpoint]}px) ${byBreakpoint[breakpoint]}`);
+	return [...conditions, base].join(', ');
+}
+
+export interface ResponsiveImageOptions extends Omit<BunnyImageOptions, 'width'> {
+	maxWidth?: number; // Largest width requested (also the fallback `src` width)
+	widths?: number[]; // Width ladder, defaults to DEFAULT_IMAGE_WIDTHS
+	sizes?: string | SizesSpec; // Defaults to full viewport width
+}
+
+export interface ResponsiveImage {
+	src: string;
+	srcset: string;
+	sizes: string;
+}
+
+/**
+ * `src`/`srcset`/`sizes` for an `<img>` (or a `<source>` when `format` is set)
+ * @example
+ * const hero = responsiveImage('/hero.jpg', { pullZone: 'wordpress', maxWidth: 1920, quality: 85 });
+ * <img src={hero.src} srcset={hero.srcset} sizes={hero.sizes} alt="" />
+ */
+export function responsiveImage(path: string, options: ResponsiveImageOptions = {}): ResponsiveImage {
+	const { maxWidth, widths, sizes = '100vw', ...imageOptions } = options;
+	const ladder = widthLadder(maxWidth, widths);
+	return {
+		src: bunnyImage(path, { ...imageOptions, width: maxWidth ?? ladder[ladder.length - 1] }),
+		srcset: bunnyImageSrcset(path, ladder, imageOptions),
+		sizes: typeof sizes === 'string' ? sizes : imageSizes(sizes),
+	};
+}
+
+/**
+ * MIME type for a `<source type>` attribute
+ */
+export function imageMimeType(format: ImageFormat): string {
+	return format === 'jpeg' ? 'image/jpeg' : `image/${format}`;
+}
+
+// Background widths; a full-bleed background is never narrower than a phone at 2x
+export const BACKGROUND_WIDTHS = [640, 960, 1280, 1600, 1920];
+
+/**
+ * One viewport range of a responsive background
+ * `media` is null for the first tier (applies from 0px)
+ */
+export interface BackgroundTier {
+	media: string | null;
+	url: string; // 1x
+	url2x: string;
+	thumbnail: string; // Blur-up placeholder: inline from the asset manifest, else a bunnyThumbnail URL
+}
+
+export interface ResponsiveBackgroundOptions extends Omit<BunnyImageOptions, 'width' | 'height'> {
+	mobileSrc?: string; // Art-directed image below the md breakpoint
+	mobilePullZone?: string; // Defaults to pullZone
+	widths?: number[]; // Width ladder, defaults to BACKGROUND_WIDTHS
+}
+
+/**
+ * Media-query tiers for a full-bleed CSS background, smallest viewport first.
+ * Each tier serves the smallest ladder width that covers the viewport (1x) and
+ * twice that for high-density screens (2x). With `mobileSrc`, tiers below md
+ * use the mobile image.
+ * @example
+ * backgroundTiers('/hero.jpg', { pullZone: 'wordpress', mobileSrc: '/hero-portrait.jpg' })
+ */
+export function backgroundTiers(src: string, options: ResponsiveBackgroundOptions = {}): BackgroundTier[] {
+	const { mobileSrc, mobilePullZone, widths = BACKGROUND_WIDTHS, ...imageOptions } = options;
+	const ladder = widthLadder(undefined, widths);
+	const largest = ladder[ladder.length - 1];
+	const fit = (width: number): number => ladder.find((candidate) => candidate >= width) ?? largest;
+
+	// Upper viewport bound of each tier; art direction adds a switch at md
+	const bounds = [...new Set([
+		...ladder.slice(0, -1),
+		...(mobileSrc ? [BREAKPOINTS.md - 1] : []),
+	])].sort((a, b) => a - b);
+
+	const tiers: BackgroundTier[] = [];
+	let min = 0;
+	for (const max of [...bounds, Infinity]) {
+		const useMobile = mobileSrc !== undefined && max < BREAKPOINTS.md;
+		const path = useMobile ? mobileSrc : src;
+		const pullZone = useMobile ? mobilePullZone ?? imageOptions.pullZone : imageOptions.pullZone;
+		const width = max === Infinity ? largest : fit(max);
+		const width2x = max === Infinity ? largest : fit(max * 2);
+
+		tiers.push({
+			media: min === 0 ? null : `(min-width: ${min}px)`,
+			url: bunnyImage(path, { ...imageOptions, pullZone, width }),
+			url2x: bunnyImage(path, { ...imageOptions, pullZone, width: width2x }),
+			thumbnail: getAsset(path)?.placeholder ?? bunnyThumbnail(path, 50, pullZone),
+		});
+		min = max + 1;
+	}
+	return tiers;
+}
+
+/**
+ * The URL the browser picks from the tiers for the current viewport and pixel density
+ * (client-side only)
+ */
+export function currentBackgroundUrl(tiers: BackgroundTier[]): string | undefined {
+	const tier = tiers.filter((candidate) => !candidate.media || window.matchMedia(candidate.media).matches).pop();
+	if (!tier) return undefined;
+	return window.devicePixelRatio > 1 ? tier.url2x : tier.url;
+}
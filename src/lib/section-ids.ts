@@ -0,0 +1,29 @@
+/**
+ * Section id helpers
+ * Shared by the hash-scroll manager (client) and the section index integration
+ * (build time) so a section without an explicit id gets the same anchor in both.
+ */
+
+/**
+ * Convert heading text to an anchor slug
+ * Lowercase, spaces to hyphens, special characters removed
+ */
+export function slugifySectionTitle(text: string): string {
+	return text
+		.trim()
+		.toLowerCase()
+		.replace(/[^\w\s-]/g, '')
+		.replace(/\s+/g, '-')
+		.replace(/-+/g, '-')
+		.replace(/^-|-$/g, '');
+}
+
+/**
+ * Id for a snap section that has none: slug of its first heading, or `section-{n}`
+ * @param headingText - Text content of the first h1-h6 inside the section
+ * @param index - Zero-based position among the page's snap sections
+ */
+export function generatedSectionId(headingText: string | null | undefined, index: number): string {
+	const slug = headingText ? slugifySectionTitle(headingText) : '';
+	return slug.length > 0 ? slug : `section-${index + 1}`;
+}
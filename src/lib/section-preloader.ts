@@ -0,0 +1,212 @@
+/**
+ * Predictive preloading for snap sections
+ * RULE-018: Progressive asset loading, companion to lazyLoadManager
+ *
+ * The deck snaps one full-screen section at a time, so what the viewer sees next
+ * is known before it scrolls in. Media components pass a preload target to
+ * lazyLoadManager.observe; this module loads the targets of the sections the
+ * viewer is heading to:
+ * - PRELOAD_AHEAD sections in the scroll direction, one behind while the page is at rest
+ * - further ahead while scrolling fast (one more section per viewport the
+ *   current velocity covers in LOOKAHEAD_MS, up to MAX_EXTRA_AHEAD)
+ * - the hero (largest media) of the next section also gets a
+ *   <link rel="preload" fetchpriority="high">
+ * Targets that drop out of the prediction before they were seen are cancelled
+ * and their preload link is removed.
+ */
+
+import { getSectionTracker, type SectionTracker } from './section-tracker';
+
+/**
+ * Image the browser should fetch first for a section's hero (for videos: the poster)
+ */
+export interface PreloadHint {
+	href: string;
+	imageSrcset?: string;
+	imageSizes?: string;
+	type?: string; // MIME type of a <picture> source; browsers skip hints they can't decode
+}
+
+export interface PreloadTarget {
+	load: () => void; // Start fetching (e.g. render the element) without playing anything
+	cancel?: () => void; // No longer predicted and not seen yet: drop it to abort the fetch
+	hint?: () => PreloadHint | null; // Read when the target is the next section's hero
+}
+
+interface PreloadEntry {
+	element: Element;
+	target: PreloadTarget;
+	preloaded: boolean;
+}
+
+const PRELOAD_AHEAD = 2;
+const MAX_EXTRA_AHEAD = 2;
+const LOOKAHEAD_MS = 500;
+// Scroll events further apart than this mean the page is at rest
+const IDLE_MS = 150;
+// Smoothing of the scroll velocity between events (0..1, higher follows faster)
+const VELOCITY_SMOOTHING = 0.3;
+
+class SectionPreloader {
+	private entries: Map<Element, PreloadEntry> = new Map();
+	private links: Map<string, HTMLLinkElement> = new Map();
+	private tracker: SectionTracker | null = null;
+	private unsubscribe: (() => void) | null = null;
+	private frame: number | null = null;
+	private direction: 1 | -1 = 1;
+	private velocity = 0; // px/ms, positive scrolling down
+	private lastScrollTop = 0;
+	private lastScrollAt = 0;
+
+	private start(): void {
+		this.tracker = getSectionTracker();
+		this.unsubscribe = this.tracker.subscribe(() => this.schedule());
+		this.lastScrollTop = document.body.scrollTop;
+		document.addEventListener('scroll', this.handleScroll, { capture: true, passive: true });
+	}
+
+	/**
+	 * Preload an element's media when its section is predicted to come up
+	 */
+	register(element: Element, target: PreloadTarget): void {
+		if (!this.tracker) {
+			this.start();
+		}
+		this.entries.set(element, { element, target, preloaded: false });
+		this.schedule();
+	}
+
+	/**
+	 * Stop tracking an element (loaded for real, or going away)
+	 */
+	unregister(element: Element): void {
+		if (this.entries.delete(element)) {
+			this.schedule();
+		}
+	}
+
+	// The deck scrolls on <body>; scroll events of nested scrollers are ignored
+	private readonly handleScroll = (event: Event): void => {
+		if (event.target !== document && event.target !== document.body) return;
+
+		const now = performance.now();
+		const scrollTop = document.body.scrollTop;
+		const elapsed = now - this.lastScrollAt;
+		const instant = elapsed > 0 && elapsed < IDLE_MS ? (scrollTop - this.lastScrollTop) / elapsed : 0;
+		this.velocity = this.velocity * (1 - VELOCITY_SMOOTHING) + instant * VELOCITY_SMOOTHING;
+		if (scrollTop !== this.lastScrollTop) {
+			this.direction = scrollTop > this.lastScrollTop ? 1 : -1;
+		}
+		this.lastScrollTop = scrollTop;
+		this.lastScrollAt = now;
+		this.schedule();
+	};
+
+	// One prediction per frame however many scroll events and registrations arrive
+	private schedule(): void {
+		if (this.frame !== null) return;
+		this.frame = requestAnimationFrame(() => {
+			this.frame = null;
+			this.update();
+		});
+	}
+
+	/**
+	 * Section indexes to preload, nearest first
+	 */
+	private predictedSections(current: number): number[] {
+		const atRest = performance.now() - this.lastScrollAt > IDLE_MS;
+		const velocity = atRest ? 0 : Math.abs(this.velocity);
+		const extra = Math.min(MAX_EXTRA_AHEAD, Math.round((velocity * LOOKAHEAD_MS) / window.innerHeight));
+
+		const sections = [current];
+		for (let step = 1; step <= PRELOAD_AHEAD + extra; step++) {
+			sections.push(current + step * this.direction);
+		}
+		if (atRest) {
+			sections.push(current - this.direction);
+		}
+		return sections;
+	}
+
+	private update(): void {
+		const tracker = this.tracker;
+		if (!tracker || tracker.count === 0) return;
+
+		const current = tracker.current?.index ?? 0;
+		const predicted = new Set(this.predictedSections(current));
+		const next = current + this.direction;
+		let hero: PreloadTarget | null = null;
+		let heroArea = -1;
+
+		for (const entry of this.entries.values()) {
+			const index = tracker.indexOf(entry.element);
+			if (predicted.has(index)) {
+				if (!entry.preloaded) {
+					entry.preloaded = true;
+					entry.target.load();
+				}
+			} else if (entry.preloaded) {
+				entry.preloaded = false;
+				entry.target.cancel?.();
+			}
+
+			if (index === next && entry.target.hint) {
+				const rect = entry.element.getBoundingClientRect();
+				if (rect.width * rect.height > heroArea) {
+					hero = entry.target;
+					heroArea = rect.width * rect.height;
+				}
+			}
+		}
+
+		const hint = hero?.hint?.() ?? null;
+		this.setHints(hint ? [hint] : []);
+	}
+
+	/**
+	 * Keep exactly these <link rel="preload"> hints in <head>
+	 */
+	private setHints(hints: PreloadHint[]): void {
+		const wanted = new Map(hints.map((hint) => [`${hint.href}|${hint.imageSrcset ?? ''}`, hint]));
+
+		this.links.forEach((link, key) => {
+			if (!wanted.has(key)) {
+				link.remove();
+				this.links.delete(key);
+			}
+		});
+
+		wanted.forEach((hint, key) => {
+			if (this.links.has(key)) return;
+			const link = document.createElement('link');
+			link.rel = 'preload';
+			link.as = 'image';
+			link.href = hint.href;
+			link.fetchPriority = 'high';
+			link.crossOrigin = 'anonymous'; // Matches the crossOrigin of the media elements, or the fetch isn't reused
+			if (hint.imageSrcset) link.imageSrcset = hint.imageSrcset;
+			if (hint.imageSizes) link.imageSizes = hint.imageSizes;
+			if (hint.type) link.type = hint.type;
+			document.head.appendChild(link);
+			this.links.set(key, link);
+		});
+	}
+
+	/**
+	 * Drop every target and hint and stop listening
+	 */
+	disconnect(): void {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+		this.tracker = null;
+		document.removeEventListener('scroll', this.handleScroll, { capture: true });
+		if (this.frame !== null) cancelAnimationFrame(this.frame);
+		this.frame = null;
+		this.entries.clear();
+		this.setHints([]);
+	}
+}
+
+// Singleton instance
+export const sectionPreloader = new SectionPreloader();
@@ -0,0 +1,299 @@
+/**
+ * Section Tracker
+ * Knows which snap section is active and moves between sections
+ * Driven by Intersection Observer + scrollend events only (no polling)
+ *
+ * The deck scrolls on <body>, not the window, and element scroll events do not
+ * bubble, so scroll/scrollend are listened for in the capture phase on document.
+ */
+
+import { generatedSectionId } from './section-ids';
+
+export const SECTION_SELECTOR = 'section[class*="snap-start"]';
+
+export interface ActiveSection {
+	id: string;
+	index: number;
+	element: HTMLElement;
+}
+
+export type SectionListener = (active: ActiveSection, previous: ActiveSection | null) => void;
+
+export interface GoToOptions {
+	behavior?: ScrollBehavior;
+}
+
+// Used when the browser has no scrollend event (debounced scroll instead)
+const SCROLL_END_DELAY = 150;
+// Upper bound for a programmatic scroll that never reports scrollend (target already in place)
+const NAVIGATION_TIMEOUT = 1000;
+
+export class SectionTracker {
+	private sections: HTMLElement[] = [];
+	private active: ActiveSection | null = null;
+	private listeners: Set<SectionListener> = new Set();
+	private observer: IntersectionObserver | null = null;
+	private frame: number | null = null;
+	private scrollEndTimeout: number | null = null;
+	private navigationTimeout: number | null = null;
+	private navigating = false;
+	private readonly supportsScrollEnd = 'onscrollend' in window;
+
+	constructor() {
+		this.observer = new IntersectionObserver(() => this.scheduleUpdate(), {
+			// Multiple thresholds for better detection during scroll snap
+			threshold: [0, 0.25, 0.5, 0.75, 1],
+			rootMargin: '-5% 0px -5% 0px',
+		});
+
+		if (this.supportsScrollEnd) {
+			document.addEventListener('scrollend', this.handleScrollEnd, { capture: true, passive: true });
+		} else {
+			document.addEventListener('scroll', this.handleScroll, { capture: true, passive: true });
+		}
+
+		this.refresh();
+	}
+
+	/**
+	 * Currently active section, or null before the first measurement
+	 */
+	get current(): ActiveSection | null {
+		return this.active;
+	}
+
+	/**
+	 * Number of snap sections on the page
+	 */
+	get count(): number {
+		return this.sections.length;
+	}
+
+	/**
+	 * Section at a zero-based index, or null if out of range
+	 */
+	sectionAt(index: number): ActiveSection | null {
+		const element = this.sections[index];
+		return element ? { id: element.id, index, element } : null;
+	}
+
+	/**
+	 * Index of the section containing an element, or -1 if it is outside every section
+	 */
+	indexOf(element: Element): number {
+		const section = element.closest(SECTION_SELECTOR);
+		return section ? this.sections.indexOf(section as HTMLElement) : -1;
+	}
+
+	/**
+	 * Re-read the section list (call after sections are added or removed)
+	 * Sections without an id get a generated one (RULE-027 deep links)
+	 */
+	refresh(): void {
+		this.observer?.disconnect();
+		this.sections = Array.from(document.querySelectorAll<HTMLElement>(SECTION_SELECTOR));
+		this.sections.forEach((section, index) => {
+			if (!section.id) {
+				const heading = section.querySelector('h1, h2, h3, h4, h5, h6');
+				section.id = generatedSectionId(heading?.textContent, index);
+			}
+			this.observer?.observe(section);
+		});
+		this.update();
+	}
+
+	/**
+	 * Listen for active section changes
+	 * Called immediately with the current section if one is known
+	 * @returns Unsubscribe function
+	 */
+	subscribe(listener: SectionListener): () => void {
+		this.listeners.add(listener);
+		if (this.active) {
+			listener(this.active, null);
+		}
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Scroll to a section by id or zero-based index
+	 * Respects prefers-reduced-motion (RULE-008)
+	 * @returns false if no such section exists
+	 */
+	goTo(target: string | number, options: GoToOptions = {}): boolean {
+		const index = typeof target === 'number'
+			? target
+			: this.sections.findIndex((section) => section.id === target);
+		const element = this.sections[index];
+		if (!element) return false;
+
+		const prefersReducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+		const behavior = prefersReducedMotion ? 'auto' : options.behavior ?? 'smooth';
+
+		// Report the destination right away and ignore intermediate sections until the scroll settles
+		this.navigating = true;
+		this.setActive(index);
+		if (this.navigationTimeout !== null) {
+			clearTimeout(this.navigationTimeout);
+		}
+		this.navigationTimeout = window.setTimeout(() => this.finishNavigation(), NAVIGATION_TIMEOUT);
+
+		element.scrollIntoView({ behavior, block: 'start', inline: 'nearest' });
+		return true;
+	}
+
+	/**
+	 * Move one section down
+	 */
+	next(options?: GoToOptions): boolean {
+		return this.goTo(this.activeIndex() + 1, options);
+	}
+
+	/**
+	 * Move one section up
+	 */
+	prev(options?: GoToOptions): boolean {
+		return this.goTo(this.activeIndex() - 1, options);
+	}
+
+	/**
+	 * Measure and report the active section now (e.g. after layout changes)
+	 */
+	update(): void {
+		if (this.navigating) return;
+		const index = this.findActiveIndex();
+		if (index !== -1) {
+			this.setActive(index);
+		}
+	}
+
+	/**
+	 * Stop observing and drop all listeners
+	 */
+	destroy(): void {
+		this.observer?.disconnect();
+		this.observer = null;
+		document.removeEventListener('scrollend', this.handleScrollEnd, { capture: true });
+		document.removeEventListener('scroll', this.handleScroll, { capture: true });
+		if (this.frame !== null) cancelAnimationFrame(this.frame);
+		if (this.scrollEndTimeout !== null) clearTimeout(this.scrollEndTimeout);
+		if (this.navigationTimeout !== null) clearTimeout(this.navigationTimeout);
+		this.listeners.clear();
+		this.sections = [];
+		this.active = null;
+		if (instance === this) {
+			instance = null;
+		}
+	}
+
+	private activeIndex(): number {
+		return this.active ? this.active.index : this.findActiveIndex();
+	}
+
+	private readonly handleScrollEnd = (): void => {
+		if (this.navigating) {
+			this.finishNavigation();
+			return;
+		}
+		this.scheduleUpdate();
+	};
+
+	private readonly handleScroll = (): void => {
+		if (this.scrollEndTimeout !== null) {
+			clearTimeout(this.scrollEndTimeout);
+		}
+		this.scrollEndTimeout = window.setTimeout(() => {
+			this.scrollEndTimeout = null;
+			this.handleScrollEnd();
+		}, SCROLL_END_DELAY);
+	};
+
+	private finishNavigation(): void {
+		if (this.navigationTimeout !== null) {
+			clearTimeout(this.navigationTimeout);
+			this.navigationTimeout = null;
+		}
+		this.navigating = false;
+		this.scheduleUpdate();
+	}
+
+	// Batch observer/scroll notifications into one measurement per frame (RULE-019)
+	private scheduleUpdate(): void {
+		if (this.frame !== null) return;
+		this.frame = requestAnimationFrame(() => {
+			this.frame = null;
+			this.update();
+		});
+	}
+
+	private setActive(index: number): void {
+		const element = this.sections[index];
+		if (!element || this.active?.element === element) return;
+
+		const previous = this.active;
+		this.active = { id: element.id, index, element };
+		this.listeners.forEach((listener) => listener(this.active as ActiveSection, previous));
+	}
+
+	/**
+	 * Score each visible section by how much of it is visible and how centered it is;
+	 * a snapped section is mostly visible and well centered
+	 */
+	private findActiveIndex(): number {
+		const viewportHeight = window.innerHeight;
+		const viewportCenter = viewportHeight / 2;
+		let maxScore = -1;
+		let activeIndex = -1;
+		let fallbackIndex = -1; // Section with most visible area
+		let maxVisibleArea = 0;
+
+		this.sections.forEach((section, index) => {
+			const rect = section.getBoundingClientRect();
+			const visibleHeight = Math.max(0, Math.min(viewportHeight, rect.bottom) - Math.max(0, rect.top));
+
+			if (visibleHeight > maxVisibleArea) {
+				maxVisibleArea = visibleHeight;
+				fallbackIndex = index;
+			}
+			if (visibleHeight === 0) return;
+
+			const visibilityRatio = rect.height > 0 ? visibleHeight / rect.height : 0;
+			const distanceFromCenter = Math.abs((rect.top + rect.bottom) / 2 - viewportCenter);
+			// Sections at center get 1, sections at the edge get less
+			const centerScore = Math.max(0, 1 - (distanceFromCenter / viewportHeight));
+
+			let score: number;
+			if (visibilityRatio > 0.7 && centerScore > 0.5) {
+				// Likely snapped
+				score = visibilityRatio * 0.5 + centerScore * 0.5;
+				if (visibilityRatio > 0.9 && centerScore > 0.7) {
+					score += 0.3; // Perfectly snapped
+				}
+			} else {
+				// Partially visible
+				score = visibilityRatio * 0.6 + centerScore * 0.4;
+			}
+
+			if (score > maxScore) {
+				maxScore = score;
+				activeIndex = index;
+			}
+		});
+
+		return activeIndex !== -1 ? activeIndex : fallbackIndex;
+	}
+}
+
+let instance: SectionTracker | null = null;
+
+/**
+ * Shared tracker for the page (created on first use, client-side only)
+ */
+export function getSectionTracker(): SectionTracker {
+	if (!instance) {
+		instance = new SectionTracker();
+	}
+	return instance;
+}
@@ -0,0 +1,99 @@
+/**
+ * Caption discovery for Bunny Stream videos (server-only)
+ * Sections with `videoId` videos call withStreamCaptions in their frontmatter, so
+ * captions uploaded to the Stream library show up without listing them in props.
+ *
+ * - bunny provider: the video's caption languages come from the Stream API
+ *   (BUNNY_STREAM_API_KEY, the library's API key); without the key nothing is discovered
+ * - local provider: every media/stream/<videoId>/captions/<lang>.vtt file
+ * Either way the files are served from the video's captions/ folder (videoTrackUrl).
+ */
+
+import { readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getSecret } from 'astro:env/server';
+import { cdnConfig } from './cdn-config';
+import { getMediaProvider } from './media-provider';
+import type { VideoTrack } from './video-tracks';
+
+if (typeof window !== 'undefined') {
+	throw new Error('[Bunny CDN] stream-captions.ts is server-only, the Stream API key must never reach the browser');
+}
+
+interface StreamCaption {
+	srclang: string;
+	label: string;
+}
+
+const STREAM_API_URL = 'https://video.bunnycdn.com';
+const FETCH_TIMEOUT = 30000;
+const LOCAL_STREAM_DIR = join('media', 'stream');
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language' });
+const discovered = new Map<string, Promise<VideoTrack[]>>();
+let warnedMissingKey = false;
+
+async function localCaptions(videoId: string): Promise<StreamCaption[]> {
+	const files = await readdir(join(LOCAL_STREAM_DIR, videoId, 'captions')).catch(() => []);
+	return files
+		.filter((file) => file.endsWith('.vtt'))
+		.map((file) => {
+			const srclang = file.slice(0, -'.vtt'.length);
+			return { srclang, label: languageNames.of(srclang) ?? srclang };
+		});
+}
+
+async function libraryCaptions(videoId: string): Promise<StreamCaption[]> {
+	const libraryId = cdnConfig.stream?.libraryId;
+	const apiKey = getSecret('BUNNY_STREAM_API_KEY');
+	if (!libraryId) return [];
+	if (!apiKey) {
+		if (!warnedMissingKey) {
+			warnedMissingKey = true;
+			console.warn('[Bunny CDN] BUNNY_STREAM_API_KEY not set, Stream captions are not discovered');
+		}
+		return [];
+	}
+
+	// Captions are optional, so API trouble only costs this video its tracks
+	try {
+		const response = await fetch(`${STREAM_API_URL}/library/${libraryId}/videos/${videoId}`, {
+			headers: { AccessKey: apiKey, Accept: 'application/json' },
+			signal: AbortSignal.timeout(FETCH_TIMEOUT),
+		});
+		if (!response.ok) throw new Error(`HTTP ${response.status}`);
+		const video = (await response.json()) as { captions?: StreamCaption[] };
+		return video.captions ?? [];
+	} catch (error) {
+		console.warn(`[Bunny CDN] Stream captions for video ${videoId} not discovered: ${(error as Error).message}`);
+		return [];
+	}
+}
+
+/**
+ * Caption tracks uploaded for a Stream video (memoized per build)
+ */
+export function streamCaptionTracks(videoId: string): Promise<VideoTrack[]> {
+	let tracks = discovered.get(videoId);
+	if (!tracks) {
+		const captions = getMediaProvider().name === 'local' ? localCaptions(videoId) : libraryCaptions(videoId);
+		tracks = captions.then((list) =>
+			list.map(({ srclang, label }) => ({ src: `captions/${srclang}.vtt`, srclang, label, kind: 'captions' as const, videoId }))
+		);
+		discovered.set(videoId, tracks);
+	}
+	return tracks;
+}
+
+/**
+ * Videos with `tracks` filled in from the Stream library where props don't list any
+ * @example
+ * const videos = await withStreamCaptions(Astro.props.videos);
+ */
+export async function withStreamCaptions<T extends { videoId?: string; tracks?: VideoTrack[] }>(videos: T[]): Promise<T[]> {
+	return Promise.all(
+		videos.map(async (video) =>
+			video.tracks || !video.videoId ? video : { ...video, tracks: await streamCaptionTracks(video.videoId) }
+		)
+	);
+}
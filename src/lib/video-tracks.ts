@@ -0,0 +1,87 @@
+/**
+ * WebVTT text tracks for LazyVideo: captions, subtitles and text audio descriptions
+ * Tracks come from block props (storage pull zone paths or URLs) or, for Bunny
+ * Stream videoIds, from the library's captions (see ./stream-captions.ts).
+ *
+ * Whether captions are on is a per-visitor preference kept in localStorage, so
+ * turning them on for the reel keeps them on for every video on every page.
+ */
+
+import { bunnyVideoCaptions, bunnyVideoFile } from './bunny-cdn';
+
+export type VideoTrackKind = 'captions' | 'subtitles' | 'descriptions';
+
+export interface VideoTrack {
+	src: string; // .vtt path in the pull zone, absolute URL, or captions/<srclang>.vtt of a Stream video
+	srclang: string; // BCP 47, e.g. 'en', 'es-MX'
+	label: string; // Shown in the browser's captions menu
+	kind?: VideoTrackKind; // Default: 'captions'
+	default?: boolean; // Shown when the visitor has no caption preference yet
+	pullZone?: string; // Default: 'storage'
+	videoId?: string; // Bunny Stream video the track was uploaded to (see ./stream-captions.ts)
+}
+
+const CAPTIONS_STORAGE_KEY = 'captionsEnabled';
+const CAPTIONS_EVENT = 'captionpreferencechange';
+
+export function videoTrackUrl(track: VideoTrack): string {
+	if (track.videoId) return bunnyVideoCaptions(track.videoId, track.srclang);
+	return /^https?:\/\//.test(track.src) ? track.src : bunnyVideoFile(track.src, track.pullZone || 'storage');
+}
+
+/**
+ * Tracks the captions toggle switches (descriptions are for assistive tech and stay hidden)
+ */
+export function isCaptionTrack(track: { kind: string }): boolean {
+	return track.kind === 'captions' || track.kind === 'subtitles';
+}
+
+/**
+ * Caption track to show: the one matching the visitor's languages, else the
+ * `default` one, else the first
+ */
+export function preferredCaptionTrack<T extends VideoTrack>(tracks: T[], languages: readonly string[] = []): T | undefined {
+	const captions = tracks.filter((track) => isCaptionTrack({ kind: track.kind ?? 'captions' }));
+	for (const language of languages) {
+		const base = language.toLowerCase().split('-')[0];
+		const match =
+			captions.find((track) => track.srclang.toLowerCase() === language.toLowerCase()) ??
+			captions.find((track) => track.srclang.toLowerCase().split('-')[0] === base);
+		if (match) return match;
+	}
+	return captions.find((track) => track.default) ?? captions[0];
+}
+
+/**
+ * Saved caption preference, null until the visitor has toggled captions
+ */
+export function getCaptionPreference(): boolean | null {
+	try {
+		const value = localStorage.getItem(CAPTIONS_STORAGE_KEY);
+		return value === null ? null : value === 'true';
+	} catch {
+		// Storage blocked (private mode, sandboxed iframe)
+		return null;
+	}
+}
+
+/**
+ * Save the preference and tell every video on the page
+ */
+export function setCaptionPreference(enabled: boolean): void {
+	try {
+		localStorage.setItem(CAPTIONS_STORAGE_KEY, String(enabled));
+	} catch {
+		// Preference just isn't remembered
+	}
+	window.dispatchEvent(new CustomEvent<boolean>(CAPTIONS_EVENT, { detail: enabled }));
+}
+
+/**
+ * Follow preference changes made by other videos; returns the unsubscribe function
+ */
+export function onCaptionPreferenceChange(listener: (enabled: boolean) => void): () => void {
+	const handle = (event: Event): void => listener((event as CustomEvent<boolean>).detail);
+	window.addEventListener(CAPTIONS_EVENT, handle);
+	return () => window.removeEventListener(CAPTIONS_EVENT, handle);
+}
@@ -0,0 +1,9 @@
+/// <reference types="vitest/config" />
+import { getViteConfig } from 'astro/config';
+
+// Astro's Vite config, so tests resolve astro:env and import.meta.env like the build
+export default getViteConfig({
+  test: {
+    include: ['src/**/*.test.ts', '*.test.ts'], // Root scripts (migrate-wp-media.js) sit next to their tests
+  },
+});